@@ -0,0 +1,76 @@
+import { GongClient, toAutoPaginationInfo } from './gong-client.js';
+import { GongAutoPaginationInfo, GongGetAuditLogsArgs, GongLogEntry } from './gong-types.js';
+
+export interface AuditLogEvent extends GongLogEntry {
+  eventType: string;
+}
+
+export interface AuditLogUserSummary {
+  userId?: string;
+  userEmailAddress?: string;
+  userFullName?: string;
+  events: number;
+}
+
+export interface AuditLogsReport {
+  logType: GongGetAuditLogsArgs['logType'];
+  fromDateTime: string;
+  toDateTime?: string;
+  events: AuditLogEvent[];
+  // Most active users first
+  byUser: AuditLogUserSummary[];
+  records: GongAutoPaginationInfo;
+}
+
+const EVENT_TYPE_FIELDS = ['eventType', 'eventName', 'action'];
+
+// Gong's logRecord has no fixed schema, so take the first event-like field and fall back to the log type itself
+function eventTypeOf(entry: GongLogEntry, logType: string): string {
+  for (const field of EVENT_TYPE_FIELDS) {
+    const value = entry.logRecord?.[field];
+    if (typeof value === 'string' && value) return value;
+  }
+  return logType;
+}
+
+function summarizeUsers(events: AuditLogEvent[]): AuditLogUserSummary[] {
+  const byUser = new Map<string, AuditLogUserSummary>();
+  for (const event of events) {
+    const key = event.userId ?? event.userEmailAddress ?? '';
+    const summary = byUser.get(key) ?? {
+      userId: event.userId,
+      userEmailAddress: event.userEmailAddress,
+      userFullName: event.userFullName,
+      events: 0
+    };
+    summary.events++;
+    byUser.set(key, summary);
+  }
+  return [...byUser.values()].sort((a, b) => b.events - a.events);
+}
+
+// Pages through /v2/logs and applies the user and event type filters Gong does not support server-side
+export async function buildAuditLogsReport(client: GongClient, args: GongGetAuditLogsArgs): Promise<AuditLogsReport> {
+  const { logType, fromDateTime, toDateTime, userIds, userEmails, eventTypes, maxRecords } = args;
+  const collected = await client.getAllLogs(logType, fromDateTime, toDateTime, maxRecords);
+
+  const wantedUsers = userIds && userIds.length > 0 ? new Set(userIds) : undefined;
+  const wantedEmails = userEmails && userEmails.length > 0 ? new Set(userEmails.map(email => email.toLowerCase())) : undefined;
+  const wantedEvents = eventTypes && eventTypes.length > 0 ? new Set(eventTypes.map(type => type.toLowerCase())) : undefined;
+
+  const events = collected.items
+    .map(entry => ({ ...entry, eventType: eventTypeOf(entry, logType) }))
+    .filter(event =>
+      (!wantedUsers || (event.userId !== undefined && wantedUsers.has(event.userId))) &&
+      (!wantedEmails || (event.userEmailAddress !== undefined && wantedEmails.has(event.userEmailAddress.toLowerCase()))) &&
+      (!wantedEvents || wantedEvents.has(event.eventType.toLowerCase())));
+
+  return {
+    logType,
+    fromDateTime,
+    toDateTime,
+    events,
+    byUser: summarizeUsers(events),
+    records: { ...toAutoPaginationInfo(collected, maxRecords), returnedRecords: events.length }
+  };
+}
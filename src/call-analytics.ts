@@ -0,0 +1,214 @@
+import { LocalCallStore } from './call-store.js';
+import { loadCallTranscripts } from './call-transcripts.js';
+import { GongClient } from './gong-client.js';
+import { GongCall, GongCallAnalyticsArgs, GongEnrichedCallTranscript, GongSpeaker } from './gong-types.js';
+import { formatOffset } from './time-format.js';
+import { GongUserDirectory } from './user-directory.js';
+
+// Pauses shorter than this are ordinary turn-taking rather than silence
+export const DEFAULT_SILENCE_THRESHOLD_SECONDS = 5;
+
+type Affiliation = GongSpeaker['affiliation'];
+
+export interface SpeakerTalkStats {
+  speakerId: string;
+  name?: string;
+  affiliation: Affiliation;
+  talkSeconds: number;
+  // Share of all talk time on the call
+  talkRatio: number;
+  questions: number;
+  longestMonologueSeconds: number;
+}
+
+export interface SideTalkStats {
+  talkSeconds: number;
+  talkRatio: number;
+  questions: number;
+}
+
+export interface CallAnalytics {
+  callId: string;
+  title?: string;
+  started?: string;
+  url?: string;
+  durationSeconds: number;
+  talkSeconds: number;
+  speakers: SpeakerTalkStats[];
+  bySide: Record<Affiliation, SideTalkStats>;
+  longestMonologue?: {
+    speakerId: string;
+    speakerName?: string;
+    affiliation: Affiliation;
+    startSeconds: number;
+    timestamp: string;
+    durationSeconds: number;
+  };
+  speakerSwitches: number;
+  speakerSwitchesPerMinute: number;
+  silence: {
+    thresholdSeconds: number;
+    gapCount: number;
+    totalSeconds: number;
+    longestSeconds: number;
+    gaps: Array<{ startSeconds: number; timestamp: string; durationSeconds: number }>;
+  };
+}
+
+export interface CallAnalyticsReport {
+  calls: CallAnalytics[];
+  missingCallIds: string[];
+}
+
+export interface SpokenSentence {
+  speakerId: string;
+  topic?: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Typical speaking pace, used to estimate how long a sentence without an end offset lasted
+const MS_PER_WORD = 400;
+
+// Sentences in time order; a missing end is estimated from the word count, but never past the next sentence
+export function spokenSentences(callTranscript: GongEnrichedCallTranscript): SpokenSentence[] {
+  const sentences = callTranscript.transcript
+    .flatMap(monologue => monologue.sentences.map(sentence => ({
+      speakerId: monologue.speakerId,
+      topic: monologue.topic,
+      start: sentence.start,
+      end: sentence.end ?? -1,
+      text: sentence.text
+    })))
+    .sort((a, b) => a.start - b.start);
+  sentences.forEach((sentence, index) => {
+    if (sentence.end >= sentence.start) return;
+    const estimatedEnd = sentence.start + sentence.text.split(/\s+/).filter(Boolean).length * MS_PER_WORD;
+    sentence.end = Math.max(sentence.start, Math.min(estimatedEnd, sentences[index + 1]?.start ?? Infinity));
+  });
+  return sentences;
+}
+
+export function isQuestion(text: string): boolean {
+  return text.trim().endsWith('?');
+}
+
+// Talk time, questions, monologues, turn-taking and silence, all from sentence offsets
+export function analyzeCall(
+  call: GongCall,
+  callTranscript: GongEnrichedCallTranscript,
+  silenceThresholdSeconds: number = DEFAULT_SILENCE_THRESHOLD_SECONDS
+): CallAnalytics {
+  const sentences = spokenSentences(callTranscript);
+  const speakerInfo = new Map(callTranscript.speakers.map(speaker => [speaker.speakerId, speaker]));
+  const stats = new Map<string, SpeakerTalkStats>();
+  const statsFor = (speakerId: string) => {
+    let entry = stats.get(speakerId);
+    if (!entry) {
+      const speaker = speakerInfo.get(speakerId);
+      entry = { speakerId, name: speaker?.name, affiliation: speaker?.affiliation ?? 'unknown', talkSeconds: 0, talkRatio: 0, questions: 0, longestMonologueSeconds: 0 };
+      stats.set(speakerId, entry);
+    }
+    return entry;
+  };
+
+  let speakerSwitches = 0;
+  let longest: { speakerId: string; start: number; durationMs: number } | undefined;
+  let runStart = 0;
+  const gaps: CallAnalytics['silence']['gaps'] = [];
+  let spokenUntil = sentences[0]?.start ?? 0;
+
+  sentences.forEach((sentence, index) => {
+    const entry = statsFor(sentence.speakerId);
+    entry.talkSeconds += (sentence.end - sentence.start) / 1000;
+    if (isQuestion(sentence.text)) entry.questions++;
+
+    const gapMs = sentence.start - spokenUntil;
+    if (gapMs >= silenceThresholdSeconds * 1000) {
+      gaps.push({ startSeconds: round(spokenUntil / 1000), timestamp: formatOffset(spokenUntil / 1000), durationSeconds: round(gapMs / 1000) });
+    }
+    spokenUntil = Math.max(spokenUntil, sentence.end);
+
+    // A monologue runs until another speaker starts talking
+    const previous = sentences[index - 1];
+    if (previous && previous.speakerId !== sentence.speakerId) {
+      speakerSwitches++;
+      runStart = index;
+    }
+    const next = sentences[index + 1];
+    if (!next || next.speakerId !== sentence.speakerId) {
+      const durationMs = sentence.end - sentences[runStart].start;
+      entry.longestMonologueSeconds = Math.max(entry.longestMonologueSeconds, round(durationMs / 1000));
+      if (!longest || durationMs > longest.durationMs) longest = { speakerId: sentence.speakerId, start: sentences[runStart].start, durationMs };
+    }
+  });
+
+  const talkSeconds = [...stats.values()].reduce((total, entry) => total + entry.talkSeconds, 0);
+  const bySide: Record<Affiliation, SideTalkStats> = {
+    internal: { talkSeconds: 0, talkRatio: 0, questions: 0 },
+    external: { talkSeconds: 0, talkRatio: 0, questions: 0 },
+    unknown: { talkSeconds: 0, talkRatio: 0, questions: 0 }
+  };
+  for (const entry of stats.values()) {
+    entry.talkRatio = talkSeconds > 0 ? round(entry.talkSeconds / talkSeconds, 3) : 0;
+    const side = bySide[entry.affiliation];
+    side.talkSeconds += entry.talkSeconds;
+    side.questions += entry.questions;
+    entry.talkSeconds = round(entry.talkSeconds);
+  }
+  for (const side of Object.values(bySide)) {
+    side.talkRatio = talkSeconds > 0 ? round(side.talkSeconds / talkSeconds, 3) : 0;
+    side.talkSeconds = round(side.talkSeconds);
+  }
+
+  const speechSpanSeconds = sentences.length > 0 ? (spokenUntil - sentences[0].start) / 1000 : 0;
+  const durationSeconds = call.duration ?? speechSpanSeconds;
+  const longestSpeaker = longest ? speakerInfo.get(longest.speakerId) : undefined;
+
+  return {
+    callId: callTranscript.callId,
+    title: call.title || undefined,
+    started: call.started,
+    url: call.url,
+    durationSeconds: round(durationSeconds),
+    talkSeconds: round(talkSeconds),
+    speakers: [...stats.values()].sort((a, b) => b.talkSeconds - a.talkSeconds),
+    bySide,
+    longestMonologue: longest && {
+      speakerId: longest.speakerId,
+      speakerName: longestSpeaker?.name,
+      affiliation: longestSpeaker?.affiliation ?? 'unknown',
+      startSeconds: round(longest.start / 1000),
+      timestamp: formatOffset(longest.start / 1000),
+      durationSeconds: round(longest.durationMs / 1000)
+    },
+    speakerSwitches,
+    speakerSwitchesPerMinute: speechSpanSeconds > 0 ? round(speakerSwitches / (speechSpanSeconds / 60), 2) : 0,
+    silence: {
+      thresholdSeconds: silenceThresholdSeconds,
+      gapCount: gaps.length,
+      totalSeconds: round(gaps.reduce((total, gap) => total + gap.durationSeconds, 0)),
+      longestSeconds: gaps.reduce((longestGap, gap) => Math.max(longestGap, gap.durationSeconds), 0),
+      gaps
+    }
+  };
+}
+
+export async function buildCallAnalyticsReport(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  store: LocalCallStore,
+  args: GongCallAnalyticsArgs
+): Promise<CallAnalyticsReport> {
+  const { calls, missingCallIds } = await loadCallTranscripts(client, directory, store, args.callIds, args.source);
+  return {
+    calls: calls.map(({ call, callTranscript }) => analyzeCall(call, callTranscript, args.silenceThresholdSeconds)),
+    missingCallIds
+  };
+}
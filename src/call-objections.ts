@@ -0,0 +1,272 @@
+import { readFile } from 'fs/promises';
+import { isQuestion } from './call-analytics.js';
+import { LocalCallStore } from './call-store.js';
+import { loadCallTranscripts } from './call-transcripts.js';
+import { GongClient } from './gong-client.js';
+import { GongEnrichedCallTranscript, GongExtractQuestionsObjectionsArgs, GongSpeaker } from './gong-types.js';
+import { formatOffset } from './time-format.js';
+import { gongCallLinkAt } from './transcript-window.js';
+import { GongUserDirectory } from './user-directory.js';
+
+export const DEFAULT_CONTEXT_SENTENCES = 1;
+export const MAX_CONTEXT_SENTENCES = 5;
+
+// Category name -> case-insensitive regular expressions; a hit on any pattern puts a sentence in the category
+export type ObjectionPatterns = Record<string, string[]>;
+
+export const DEFAULT_OBJECTION_PATTERNS: ObjectionPatterns = {
+  price: [
+    '\\b(too |very |quite )?(expensive|pricey|costly)\\b',
+    '\\b(price|pricing|cost)\\b.*\\b(high|steep|a lot|too much)\\b',
+    '\\b(no|out of|over|tight) budget\\b',
+    '\\bbudget\\b.*\\b(cut|freeze|approved|allocated)\\b',
+    "\\b(can't|cannot|can not) afford\\b",
+    '\\b(cheaper|discount|ROI)\\b'
+  ],
+  timing: [
+    '\\bnot (a |the )?(priority|right time)\\b',
+    '\\bnext (quarter|year|fiscal year)\\b',
+    '\\b(bad|wrong) timing\\b',
+    '\\b(circle|come) back\\b.*\\b(later|next|in a few)\\b',
+    '\\b(revisit|look at) (this|it) (later|again)\\b',
+    '\\b(hold|pause) (off|on)\\b',
+    '\\bnot ready\\b',
+    '\\b(too|very|really) busy\\b'
+  ],
+  competitor: [
+    '\\b(already|currently) (use|using|have|working with|work with)\\b',
+    '\\bcompetitors?\\b',
+    '\\b(other|another|different) (vendor|tool|solution|provider|platform)s?\\b',
+    '\\b(build|built) (it|this|something) (ourselves|in-house)\\b',
+    '\\bin-house\\b',
+    '\\bswitching costs?\\b'
+  ],
+  security: [
+    '\\b(security|compliance|compliant)\\b',
+    '\\b(SOC ?2|GDPR|HIPAA|ISO ?27001|SSO|SAML)\\b',
+    '\\bencrypt(ed|ion)?\\b',
+    '\\bpen(etration)? test',
+    '\\bdata (privacy|residency|retention|protection)\\b',
+    '\\b(infosec|IT) (team|review|approval)\\b'
+  ],
+  authority: [
+    '\\b(my|our) (boss|manager|VP|CFO|CEO|CTO|CIO|legal|procurement|leadership)\\b',
+    '\\bnot (my|our) (decision|call)\\b',
+    '\\bdecision[- ]makers?\\b',
+    '\\bsign[- ]?off\\b',
+    '\\b(need|get|require)s? (an |the )?approval\\b',
+    '\\b(run|check) (it|this) (by|with)\\b',
+    '\\b(procurement|the board)\\b'
+  ]
+};
+
+interface CompiledCategory {
+  name: string;
+  patterns: RegExp[];
+}
+
+// The default library with GONG_OBJECTION_PATTERNS_FILE applied: a category in the file replaces the
+// default of the same name, a new name adds a category, and an empty list removes one
+export class ObjectionPatternLibrary {
+  private filePath?: string;
+  private loading?: Promise<CompiledCategory[]>;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  private async load(): Promise<CompiledCategory[]> {
+    let patterns: ObjectionPatterns = DEFAULT_OBJECTION_PATTERNS;
+    if (this.filePath) {
+      let overrides: unknown;
+      try {
+        overrides = JSON.parse(await readFile(this.filePath, 'utf8'));
+      } catch (error) {
+        throw new Error(`Could not read objection patterns from ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (
+        typeof overrides !== 'object' || overrides === null || Array.isArray(overrides) ||
+        !Object.values(overrides).every(list => Array.isArray(list) && list.every(pattern => typeof pattern === 'string'))
+      ) {
+        throw new Error(`${this.filePath} must map category names to arrays of regular expression strings`);
+      }
+      patterns = { ...DEFAULT_OBJECTION_PATTERNS, ...(overrides as ObjectionPatterns) };
+    }
+
+    return Object.entries(patterns)
+      .filter(([, list]) => list.length > 0)
+      .map(([name, list]) => ({
+        name,
+        patterns: list.map(pattern => {
+          try {
+            return new RegExp(pattern, 'i');
+          } catch {
+            throw new Error(`Invalid pattern for objection category "${name}": ${pattern}`);
+          }
+        })
+      }));
+  }
+
+  async categories(): Promise<CompiledCategory[]> {
+    if (!this.loading) {
+      // A broken file is reported on every call until it is fixed, rather than cached
+      this.loading = this.load().catch(error => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+}
+
+export interface TranscriptContextLine {
+  speakerName?: string;
+  affiliation: GongSpeaker['affiliation'];
+  timestamp: string;
+  text: string;
+}
+
+export interface ExtractedSentence {
+  speakerId: string;
+  speakerName?: string;
+  affiliation: GongSpeaker['affiliation'];
+  startSeconds: number;
+  timestamp: string;
+  url?: string;
+  text: string;
+  before: TranscriptContextLine[];
+  after: TranscriptContextLine[];
+}
+
+export interface ExtractedObjection extends ExtractedSentence {
+  // Every category that matched, in library order
+  categories: string[];
+  // The matched phrase for each category, same order
+  matches: string[];
+}
+
+export interface CallQuestionsObjections {
+  callId: string;
+  title?: string;
+  started?: string;
+  url?: string;
+  questions: ExtractedSentence[];
+  objections: ExtractedObjection[];
+}
+
+export interface QuestionsObjectionsReport {
+  calls: CallQuestionsObjections[];
+  // Totals across all calls, for trending; an objection counts once per category it matched
+  totals: {
+    questions: number;
+    objections: Record<string, number>;
+  };
+  missingCallIds: string[];
+}
+
+interface TimedSentence {
+  speaker?: GongSpeaker;
+  speakerId: string;
+  start: number;
+  text: string;
+}
+
+function timedSentences(callTranscript: GongEnrichedCallTranscript): TimedSentence[] {
+  const speakers = new Map(callTranscript.speakers.map(speaker => [speaker.speakerId, speaker]));
+  return callTranscript.transcript
+    .flatMap(monologue => monologue.sentences.map(sentence => ({
+      speaker: speakers.get(monologue.speakerId),
+      speakerId: monologue.speakerId,
+      start: sentence.start,
+      text: sentence.text.trim()
+    })))
+    .sort((a, b) => a.start - b.start);
+}
+
+function contextLine(sentence: TimedSentence): TranscriptContextLine {
+  return {
+    speakerName: sentence.speaker?.name,
+    affiliation: sentence.speaker?.affiliation ?? 'unknown',
+    timestamp: formatOffset(sentence.start / 1000),
+    text: sentence.text
+  };
+}
+
+// Scans one call's sentences from the chosen side for questions and objection patterns
+export function extractQuestionsAndObjections(
+  callTranscript: GongEnrichedCallTranscript,
+  categories: CompiledCategory[],
+  options: { callUrl?: string; speakerAffiliation?: 'internal' | 'external' | 'any'; contextSentences?: number } = {}
+): Pick<CallQuestionsObjections, 'questions' | 'objections'> {
+  const affiliation = options.speakerAffiliation ?? 'external';
+  const contextSize = Math.min(options.contextSentences ?? DEFAULT_CONTEXT_SENTENCES, MAX_CONTEXT_SENTENCES);
+  const sentences = timedSentences(callTranscript);
+  const questions: ExtractedSentence[] = [];
+  const objections: ExtractedObjection[] = [];
+
+  sentences.forEach((sentence, index) => {
+    const side = sentence.speaker?.affiliation ?? 'unknown';
+    if (affiliation !== 'any' && side !== affiliation) return;
+
+    const matched = categories
+      .map(category => ({ name: category.name, match: category.patterns.map(pattern => sentence.text.match(pattern)).find(Boolean) }))
+      .filter(({ match }) => match);
+    const question = isQuestion(sentence.text);
+    if (!question && matched.length === 0) return;
+
+    const seconds = sentence.start / 1000;
+    const hit: ExtractedSentence = {
+      speakerId: sentence.speakerId,
+      speakerName: sentence.speaker?.name,
+      affiliation: side,
+      startSeconds: Math.floor(seconds),
+      timestamp: formatOffset(seconds),
+      url: options.callUrl ? gongCallLinkAt(options.callUrl, seconds) : undefined,
+      text: sentence.text,
+      before: sentences.slice(Math.max(0, index - contextSize), index).map(contextLine),
+      after: sentences.slice(index + 1, index + 1 + contextSize).map(contextLine)
+    };
+    if (question) questions.push(hit);
+    if (matched.length > 0) {
+      objections.push({ ...hit, categories: matched.map(({ name }) => name), matches: matched.map(({ match }) => match![0]) });
+    }
+  });
+
+  return { questions, objections };
+}
+
+export async function buildQuestionsObjectionsReport(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  store: LocalCallStore,
+  library: ObjectionPatternLibrary,
+  args: GongExtractQuestionsObjectionsArgs
+): Promise<QuestionsObjectionsReport> {
+  const allCategories = await library.categories();
+  const unknown = (args.categories ?? []).filter(name => !allCategories.some(category => category.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown objection categories: ${unknown.join(', ')}. Available: ${allCategories.map(category => category.name).join(', ')}`);
+  }
+  const categories = args.categories ? allCategories.filter(category => args.categories!.includes(category.name)) : allCategories;
+
+  const { calls, missingCallIds } = await loadCallTranscripts(client, directory, store, args.callIds, args.source);
+  const totals: QuestionsObjectionsReport['totals'] = {
+    questions: 0,
+    objections: Object.fromEntries(categories.map(category => [category.name, 0]))
+  };
+
+  const results = calls.map(({ call, callTranscript }): CallQuestionsObjections => {
+    const extracted = extractQuestionsAndObjections(callTranscript, categories, {
+      callUrl: call.url,
+      speakerAffiliation: args.speakerAffiliation,
+      contextSentences: args.contextSentences
+    });
+    totals.questions += extracted.questions.length;
+    for (const objection of extracted.objections) {
+      for (const name of objection.categories) totals.objections[name]++;
+    }
+    return { callId: callTranscript.callId, title: call.title || undefined, started: call.started, url: call.url, ...extracted };
+  });
+
+  return { calls: results, totals, missingCallIds };
+}
@@ -0,0 +1,173 @@
+import { SpokenSentence, spokenSentences } from './call-analytics.js';
+import { LocalCallStore } from './call-store.js';
+import { loadCallTranscripts } from './call-transcripts.js';
+import { GongClient } from './gong-client.js';
+import { GongCall, GongEnrichedCallTranscript, GongGetCallOutlineArgs, GongSpeaker } from './gong-types.js';
+import { formatOffset } from './time-format.js';
+import { tokenize } from './transcript-search.js';
+import { gongCallLinkAt } from './transcript-window.js';
+import { GongUserDirectory } from './user-directory.js';
+
+export const OUTLINE_MAIN_SPEAKERS = 3;
+export const OUTLINE_EXCERPT_CHARS = 200;
+
+// Filler that would otherwise dominate word counts in conversational speech
+const EXCERPT_STOPWORDS = new Set([
+  'about', 'actually', 'also', 'because', 'been', 'being', 'could', 'does', 'doing', 'going', 'gonna', 'have', 'just',
+  'know', 'like', 'maybe', 'mean', 'really', 'right', 'should', 'some', 'something', 'that', 'their', 'them', 'then',
+  'there', 'they', 'thing', 'things', 'think', 'this', 'what', 'when', 'where', 'which', 'will', 'with', 'would',
+  'yeah', 'your', 'okay', 'sure', 'kind', 'sort', 'were', 'from', 'here', 'more', 'very', 'want', 'these', 'those'
+]);
+
+export interface OutlineSpeaker {
+  speakerId: string;
+  name?: string;
+  affiliation: GongSpeaker['affiliation'];
+  talkSeconds: number;
+  // Share of the section's talk time
+  share: number;
+}
+
+export interface OutlineSection {
+  index: number;
+  topic?: string;
+  startSeconds: number;
+  endSeconds: number;
+  start: string;
+  end: string;
+  durationSeconds: number;
+  speakers: OutlineSpeaker[];
+  excerpt: string;
+  url?: string;
+}
+
+export interface CallOutline {
+  callId: string;
+  title?: string;
+  started?: string;
+  url?: string;
+  sections: OutlineSection[];
+}
+
+export interface CallOutlineReport {
+  calls: CallOutline[];
+  missingCallIds: string[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:]+$/, '')}…`;
+}
+
+function contentWords(text: string): string[] {
+  return tokenize(text).filter(word => word.length > 3 && !EXCERPT_STOPWORDS.has(word));
+}
+
+// The sentence that shares the most content words with the rest of its section; earliest wins ties
+function pickExcerpt(sentences: SpokenSentence[]): string {
+  const frequency = new Map<string, number>();
+  for (const sentence of sentences) {
+    for (const word of new Set(contentWords(sentence.text))) frequency.set(word, (frequency.get(word) ?? 0) + 1);
+  }
+
+  let best = sentences[0];
+  let bestScore = -1;
+  for (const sentence of sentences) {
+    const words = new Set(contentWords(sentence.text));
+    // Very short sentences ("Right.", "Sounds good.") rarely say what a section is about
+    if (words.size < 3 && sentences.length > 1) continue;
+    const score = [...words].reduce((total, word) => total + (frequency.get(word) ?? 0), 0) / Math.sqrt(words.size || 1);
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  }
+  return truncate(best.text.trim(), OUTLINE_EXCERPT_CHARS);
+}
+
+function toSection(
+  index: number,
+  sentences: SpokenSentence[],
+  speakerInfo: Map<string, GongSpeaker>,
+  callUrl?: string
+): OutlineSection {
+  const start = sentences[0].start / 1000;
+  const end = Math.max(...sentences.map(sentence => sentence.end)) / 1000;
+  const talk = new Map<string, number>();
+  for (const sentence of sentences) {
+    talk.set(sentence.speakerId, (talk.get(sentence.speakerId) ?? 0) + (sentence.end - sentence.start) / 1000);
+  }
+  const totalTalk = [...talk.values()].reduce((total, seconds) => total + seconds, 0);
+
+  return {
+    index,
+    topic: sentences[0].topic || undefined,
+    startSeconds: round(start),
+    endSeconds: round(end),
+    start: formatOffset(start),
+    end: formatOffset(end),
+    durationSeconds: round(end - start),
+    speakers: [...talk.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, OUTLINE_MAIN_SPEAKERS)
+      .map(([speakerId, seconds]) => ({
+        speakerId,
+        name: speakerInfo.get(speakerId)?.name,
+        affiliation: speakerInfo.get(speakerId)?.affiliation ?? 'unknown',
+        talkSeconds: round(seconds),
+        share: totalTalk > 0 ? Math.round(seconds / totalTalk * 1000) / 1000 : 0
+      })),
+    excerpt: pickExcerpt(sentences),
+    url: callUrl ? gongCallLinkAt(callUrl, start) : undefined
+  };
+}
+
+// Sections are runs of consecutive sentences on the same Gong topic; with granularity "turn" they also break
+// at every change of speaker
+export function outlineCall(
+  call: GongCall,
+  callTranscript: GongEnrichedCallTranscript,
+  granularity: 'topic' | 'turn' = 'topic'
+): CallOutline {
+  const speakerInfo = new Map(callTranscript.speakers.map(speaker => [speaker.speakerId, speaker]));
+  const groups: SpokenSentence[][] = [];
+  for (const sentence of spokenSentences(callTranscript)) {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    const sameSection = previous &&
+      (previous.topic || undefined) === (sentence.topic || undefined) &&
+      (granularity === 'topic' || previous.speakerId === sentence.speakerId);
+    if (sameSection) {
+      current.push(sentence);
+    } else {
+      groups.push([sentence]);
+    }
+  }
+
+  return {
+    callId: callTranscript.callId,
+    title: call.title || undefined,
+    started: call.started,
+    url: call.url,
+    sections: groups.map((sentences, index) => toSection(index + 1, sentences, speakerInfo, call.url))
+  };
+}
+
+export async function buildCallOutlineReport(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  store: LocalCallStore,
+  args: GongGetCallOutlineArgs
+): Promise<CallOutlineReport> {
+  const { calls, missingCallIds } = await loadCallTranscripts(client, directory, store, args.callIds, args.source);
+  return {
+    calls: calls.map(({ call, callTranscript }) => outlineCall(call, callTranscript, args.granularity)),
+    missingCallIds
+  };
+}
@@ -0,0 +1,178 @@
+import { mkdir, readFile, readdir, rename, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { GongCall, GongEnrichedCallTranscript } from './gong-types.js';
+
+export interface SyncRunSummary {
+  mode: 'incremental' | 'backfill';
+  fromDateTime: string;
+  toDateTime: string;
+  startedAt: string;
+  finishedAt?: string;
+  callsSeen: number;
+  callsAdded: number;
+  transcriptsStored: number;
+  // Calls Gong has not finished transcribing; picked up again by the next sync
+  pendingTranscripts: number;
+  error?: string;
+}
+
+export interface SyncState {
+  // Incremental syncs resume from here
+  watermark?: string;
+  lastRun?: SyncRunSummary;
+  lastSuccessfulRun?: SyncRunSummary;
+  pendingTranscriptCallIds: string[];
+}
+
+export interface LocalCallFilter {
+  fromDateTime?: string;
+  toDateTime?: string;
+  workspaceId?: string;
+  callIds?: string[];
+}
+
+// Writes to a temp file first so a crash mid-write never leaves a truncated store file
+async function writeJsonAtomic(file: string, value: unknown): Promise<void> {
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(value));
+  await rename(temp, file);
+}
+
+// Changes on every write: writeJsonAtomic renames a new file into place, so even two writes within one
+// timestamp tick differ by inode
+async function fileVersion(file: string): Promise<string> {
+  try {
+    const { ino, mtimeMs, size } = await stat(file);
+    return `${ino}:${mtimeMs}:${size}`;
+  } catch {
+    return '';
+  }
+}
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+// Embedded file store for synced calls: calls.json holds call metadata, transcripts/<callId>.json one
+// speaker-resolved transcript each, and sync-state.json the sync watermark and last run.
+// The server and the sync CLI can share a directory, so the in-memory index is re-read whenever the files change.
+export class LocalCallStore {
+  private directory: string;
+  private calls = new Map<string, GongCall>();
+  private transcriptIds = new Set<string>();
+  private callsVersion?: string;
+  private transcriptsVersion?: string;
+  private loading?: Promise<void>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private get transcriptsDirectory(): string {
+    return path.join(this.directory, 'transcripts');
+  }
+
+  private transcriptFile(callId: string): string {
+    return path.join(this.transcriptsDirectory, `${encodeURIComponent(callId)}.json`);
+  }
+
+  private get callsFile(): string {
+    return path.join(this.directory, 'calls.json');
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loading) this.loading = mkdir(this.transcriptsDirectory, { recursive: true }).then(() => undefined);
+    await this.loading;
+    await this.refresh();
+  }
+
+  // The version is taken before reading, so a write that lands mid-read is picked up next time
+  private async reloadCalls(): Promise<void> {
+    this.callsVersion = await fileVersion(this.callsFile);
+    const calls = await readJson<GongCall[]>(this.callsFile) ?? [];
+    this.calls = new Map(calls.map(call => [call.id, call]));
+  }
+
+  private async refresh(): Promise<void> {
+    if (await fileVersion(this.callsFile) !== this.callsVersion) await this.reloadCalls();
+    // A directory's mtime can miss a file added within the same tick; hasTranscript checks the file itself on a miss
+    const transcriptsVersion = await fileVersion(this.transcriptsDirectory);
+    if (transcriptsVersion !== this.transcriptsVersion) {
+      this.transcriptsVersion = transcriptsVersion;
+      const files = await readdir(this.transcriptsDirectory);
+      this.transcriptIds = new Set(files.filter(file => file.endsWith('.json')).map(file => decodeURIComponent(file.slice(0, -'.json'.length))));
+    }
+  }
+
+  async listCalls(filter: LocalCallFilter = {}): Promise<GongCall[]> {
+    await this.ensureLoaded();
+    const from = filter.fromDateTime ? Date.parse(filter.fromDateTime) : -Infinity;
+    const to = filter.toDateTime ? Date.parse(filter.toDateTime) : Infinity;
+    const wanted = filter.callIds ? new Set(filter.callIds) : undefined;
+
+    return [...this.calls.values()]
+      .filter(call => {
+        if (wanted && !wanted.has(call.id)) return false;
+        if (filter.workspaceId && call.workspaceId !== filter.workspaceId) return false;
+        const started = Date.parse(call.started ?? call.scheduled ?? '');
+        return Number.isNaN(started) ? !filter.fromDateTime && !filter.toDateTime : started >= from && started <= to;
+      })
+      .sort((a, b) => (a.started ?? '').localeCompare(b.started ?? ''));
+  }
+
+  async getCall(callId: string): Promise<GongCall | undefined> {
+    await this.ensureLoaded();
+    return this.calls.get(callId);
+  }
+
+  // Returns how many of the calls were new to the store
+  async upsertCalls(calls: GongCall[]): Promise<number> {
+    await this.ensureLoaded();
+    // Merge into what is on disk right now, so calls another process stored are never overwritten
+    await this.reloadCalls();
+    let added = 0;
+    for (const call of calls) {
+      if (!this.calls.has(call.id)) added++;
+      this.calls.set(call.id, call);
+    }
+    await writeJsonAtomic(this.callsFile, [...this.calls.values()]);
+    this.callsVersion = await fileVersion(this.callsFile);
+    return added;
+  }
+
+  async hasTranscript(callId: string): Promise<boolean> {
+    await this.ensureLoaded();
+    if (!this.transcriptIds.has(callId) && await fileVersion(this.transcriptFile(callId))) this.transcriptIds.add(callId);
+    return this.transcriptIds.has(callId);
+  }
+
+  async getTranscript(callId: string): Promise<GongEnrichedCallTranscript | undefined> {
+    if (!(await this.hasTranscript(callId))) return undefined;
+    return readJson<GongEnrichedCallTranscript>(this.transcriptFile(callId));
+  }
+
+  async putTranscript(callTranscript: GongEnrichedCallTranscript): Promise<void> {
+    await this.ensureLoaded();
+    await writeJsonAtomic(this.transcriptFile(callTranscript.callId), callTranscript);
+    this.transcriptIds.add(callTranscript.callId);
+  }
+
+  async readState(): Promise<SyncState> {
+    await this.ensureLoaded();
+    return await readJson<SyncState>(path.join(this.directory, 'sync-state.json')) ?? { pendingTranscriptCallIds: [] };
+  }
+
+  async writeState(state: SyncState): Promise<void> {
+    await this.ensureLoaded();
+    await writeJsonAtomic(path.join(this.directory, 'sync-state.json'), state);
+  }
+
+  async counts(): Promise<{ calls: number; transcripts: number }> {
+    await this.ensureLoaded();
+    return { calls: this.calls.size, transcripts: this.transcriptIds.size };
+  }
+}
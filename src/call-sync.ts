@@ -0,0 +1,163 @@
+import { LocalCallStore, SyncRunSummary } from './call-store.js';
+import { GongClient } from './gong-client.js';
+import { withGongCacheMode } from './response-cache.js';
+import { enrichCallTranscripts, resolveCallSpeakers } from './transcript-speakers.js';
+import { GongUserDirectory } from './user-directory.js';
+
+// First incremental sync with no watermark pulls this far back
+export const DEFAULT_SYNC_LOOKBACK_DAYS = 30;
+// Calls can appear in Gong hours after they started, so each incremental sync re-reads this much before the watermark
+export const SYNC_OVERLAP_MS = 6 * 60 * 60 * 1000;
+// Calls still without a transcript after this long are assumed to have none (e.g. no recording)
+const PENDING_TRANSCRIPT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const TRANSCRIPT_BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyncOptions {
+  mode?: 'incremental' | 'backfill';
+  // Required for backfill; incremental syncs work the window out from the watermark
+  fromDateTime?: string;
+  toDateTime?: string;
+}
+
+export interface SyncStatus {
+  running: boolean;
+  currentRun?: SyncRunSummary;
+  watermark?: string;
+  lastRun?: SyncRunSummary;
+  lastSuccessfulRun?: SyncRunSummary;
+  pendingTranscripts: number;
+  stored: { calls: number; transcripts: number };
+}
+
+// Pulls calls and speaker-resolved transcripts from Gong into the local store. One run at a time;
+// a second request while a run is in flight joins it instead of starting another.
+export class CallSync {
+  private client: GongClient;
+  private directory: GongUserDirectory | null;
+  private store: LocalCallStore;
+  private current?: { summary: SyncRunSummary; done: Promise<SyncRunSummary> };
+
+  constructor(client: GongClient, directory: GongUserDirectory | null, store: LocalCallStore) {
+    this.client = client;
+    this.directory = directory;
+    this.store = store;
+  }
+
+  async status(): Promise<SyncStatus> {
+    const state = await this.store.readState();
+    return {
+      running: Boolean(this.current),
+      currentRun: this.current?.summary,
+      watermark: state.watermark,
+      lastRun: state.lastRun,
+      lastSuccessfulRun: state.lastSuccessfulRun,
+      pendingTranscripts: state.pendingTranscriptCallIds.length,
+      stored: await this.store.counts()
+    };
+  }
+
+  // Starts a run in the background and returns its progress so far
+  async start(options: SyncOptions = {}): Promise<SyncRunSummary> {
+    return this.begin(options).summary;
+  }
+
+  async run(options: SyncOptions = {}): Promise<SyncRunSummary> {
+    return this.begin(options).done;
+  }
+
+  private begin(options: SyncOptions): { summary: SyncRunSummary; done: Promise<SyncRunSummary> } {
+    if (this.current) return this.current;
+
+    const mode = options.mode ?? 'incremental';
+    if (mode === 'backfill' && !options.fromDateTime) {
+      throw new Error('Backfill needs fromDateTime');
+    }
+
+    const summary: SyncRunSummary = {
+      mode,
+      fromDateTime: options.fromDateTime ?? '',
+      toDateTime: options.toDateTime ?? new Date().toISOString(),
+      startedAt: new Date().toISOString(),
+      callsSeen: 0,
+      callsAdded: 0,
+      transcriptsStored: 0,
+      pendingTranscripts: 0
+    };
+    const done = this.execute(summary).finally(() => {
+      this.current = undefined;
+    });
+    done.catch(error => console.error('💥 Call sync failed:', error));
+    this.current = { summary, done };
+    return this.current;
+  }
+
+  private async execute(summary: SyncRunSummary): Promise<SyncRunSummary> {
+    const state = await this.store.readState();
+    if (summary.mode === 'incremental') {
+      summary.fromDateTime = state.watermark
+        ? new Date(Date.parse(state.watermark) - SYNC_OVERLAP_MS).toISOString()
+        : new Date(Date.now() - DEFAULT_SYNC_LOOKBACK_DAYS * DAY_MS).toISOString();
+    }
+    console.error(`🔄 ${summary.mode} call sync from ${summary.fromDateTime} to ${summary.toDateTime}`);
+
+    try {
+      const needTranscripts = new Set(state.pendingTranscriptCallIds);
+      // Listings must be fresh here, or a cached page would hide newly recorded calls
+      await withGongCacheMode('refresh', async () => {
+        for await (const page of this.client.paginateCalls(summary.fromDateTime, summary.toDateTime)) {
+          const calls = page.calls ?? [];
+          summary.callsSeen += calls.length;
+          summary.callsAdded += await this.store.upsertCalls(calls);
+          for (const call of calls) {
+            if (!(await this.store.hasTranscript(call.id))) needTranscripts.add(call.id);
+          }
+        }
+      });
+
+      const pending = await this.storeTranscripts([...needTranscripts], summary);
+      summary.pendingTranscripts = pending.length;
+      summary.finishedAt = new Date().toISOString();
+
+      await this.store.writeState({
+        // A backfill fills in history; only incremental runs move the watermark forward
+        watermark: summary.mode === 'incremental' ? summary.toDateTime : state.watermark,
+        lastRun: summary,
+        lastSuccessfulRun: summary,
+        pendingTranscriptCallIds: pending
+      });
+      console.error(`✅ Call sync stored ${summary.callsAdded} new calls and ${summary.transcriptsStored} transcripts`);
+      return summary;
+    } catch (error) {
+      summary.error = error instanceof Error ? error.message : String(error);
+      summary.finishedAt = new Date().toISOString();
+      await this.store.writeState({ ...state, lastRun: summary });
+      throw error;
+    }
+  }
+
+  // Returns the calls whose transcripts Gong could not provide yet
+  private async storeTranscripts(callIds: string[], summary: SyncRunSummary): Promise<string[]> {
+    const pending: string[] = [];
+    for (let start = 0; start < callIds.length; start += TRANSCRIPT_BATCH_SIZE) {
+      const batch = callIds.slice(start, start + TRANSCRIPT_BATCH_SIZE);
+      const { items } = await this.client.retrieveAllTranscripts(batch);
+      const transcribed = items.filter(callTranscript => callTranscript.transcript?.length > 0);
+      const speakersByCall = await resolveCallSpeakers(this.client, this.directory, transcribed.map(callTranscript => callTranscript.callId));
+
+      for (const callTranscript of enrichCallTranscripts(transcribed, speakersByCall)) {
+        await this.store.putTranscript(callTranscript);
+        summary.transcriptsStored++;
+      }
+
+      const stored = new Set(transcribed.map(callTranscript => callTranscript.callId));
+      for (const callId of batch) {
+        if (stored.has(callId)) continue;
+        const call = await this.store.getCall(callId);
+        const started = Date.parse(call?.started ?? '');
+        if (!Number.isNaN(started) && Date.now() - started < PENDING_TRANSCRIPT_MAX_AGE_MS) pending.push(callId);
+      }
+    }
+    return pending;
+  }
+}
@@ -0,0 +1,62 @@
+import { LocalCallStore } from './call-store.js';
+import { GongClient } from './gong-client.js';
+import { GongCall, GongEnrichedCallTranscript, GongSpeaker } from './gong-types.js';
+import { enrichCallTranscripts, speakersFromParties } from './transcript-speakers.js';
+import { GongUserDirectory } from './user-directory.js';
+
+export interface LoadedCallTranscript {
+  call: GongCall;
+  callTranscript: GongEnrichedCallTranscript;
+}
+
+export interface LoadedCallTranscripts {
+  calls: LoadedCallTranscript[];
+  // Requested calls with no transcript in the chosen source
+  missingCallIds: string[];
+}
+
+// Reads calls from Gong, or its response cache, with their metadata and speakers resolved from parties
+async function loadFromGong(client: GongClient, directory: GongUserDirectory | null, callIds: string[]): Promise<LoadedCallTranscript[]> {
+  if (callIds.length === 0) return [];
+  const { items: callTranscripts } = await client.retrieveAllTranscripts(callIds);
+  const transcribed = callTranscripts.filter(callTranscript => callTranscript.transcript?.length > 0);
+  if (transcribed.length === 0) return [];
+
+  const { items: calls } = await client.getAllCallsExtensive({ callIds: transcribed.map(t => t.callId) }, ['parties']);
+  const callsById = new Map(calls.map(call => [call.metaData.id, call]));
+  const speakersByCall = new Map<string, Map<string, GongSpeaker>>();
+  for (const call of calls) speakersByCall.set(call.metaData.id, await speakersFromParties(call, directory));
+
+  return enrichCallTranscripts(transcribed, speakersByCall).map(callTranscript => ({
+    call: callsById.get(callTranscript.callId)?.metaData ?? { id: callTranscript.callId, title: '' },
+    callTranscript
+  }));
+}
+
+// Loads speaker-resolved transcripts in callIds order. local: only the synced store. api: only Gong.
+// Default: synced calls from the store, the rest from Gong.
+export async function loadCallTranscripts(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  store: LocalCallStore,
+  callIds: string[],
+  source?: 'api' | 'local'
+): Promise<LoadedCallTranscripts> {
+  const loaded = new Map<string, LoadedCallTranscript>();
+  if (source !== 'api') {
+    for (const callId of callIds) {
+      const callTranscript = await store.getTranscript(callId);
+      if (callTranscript) loaded.set(callId, { call: (await store.getCall(callId)) ?? { id: callId, title: '' }, callTranscript });
+    }
+  }
+  if (source !== 'local') {
+    for (const item of await loadFromGong(client, directory, callIds.filter(callId => !loaded.has(callId)))) {
+      loaded.set(item.call.id, item);
+    }
+  }
+
+  return {
+    calls: callIds.filter(callId => loaded.has(callId)).map(callId => loaded.get(callId)!),
+    missingCallIds: callIds.filter(callId => !loaded.has(callId))
+  };
+}
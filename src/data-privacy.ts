@@ -0,0 +1,181 @@
+import { randomUUID } from 'crypto';
+import { appendFile } from 'fs/promises';
+import { GongClient } from './gong-client.js';
+import { GongDataPrivacyResponse, GongEraseDataResponse, GongPrivacySubjectArgs } from './gong-types.js';
+
+// How long an erase confirmation token stays valid
+export const ERASE_CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+export type PrivacyAuditAction = 'lookup' | 'erase_requested' | 'erase_started' | 'erase_completed' | 'erase_rejected' | 'denied';
+
+export interface PrivacyAuditEntry {
+  timestamp: string;
+  action: PrivacyAuditAction;
+  tool: string;
+  clientId?: string;
+  subject: GongPrivacySubjectArgs;
+  outcome: 'success' | 'failure';
+  detail?: string;
+}
+
+export interface PrivacyDataReport {
+  subject: GongPrivacySubjectArgs;
+  matchingPhoneNumbers?: string[];
+  emailAddresses?: string[];
+  counts: {
+    calls: number;
+    emails: number;
+    meetings: number;
+    customerDataObjects: number;
+  };
+  calls: NonNullable<GongDataPrivacyResponse['calls']>;
+  emails: NonNullable<GongDataPrivacyResponse['emails']>;
+  meetings: NonNullable<GongDataPrivacyResponse['meetings']>;
+  customerData: NonNullable<GongDataPrivacyResponse['customerData']>;
+}
+
+export interface ErasureRequest {
+  confirmationRequired: true;
+  confirmationToken: string;
+  expiresAt: string;
+  // What the confirmed erase will remove
+  preview: PrivacyDataReport;
+}
+
+export interface ErasureResult {
+  erased: true;
+  subject: GongPrivacySubjectArgs;
+  requestId: string;
+}
+
+interface PendingErasure {
+  subjectKey: string;
+  clientId?: string;
+  expiresAt: number;
+}
+
+function subjectKey(subject: GongPrivacySubjectArgs): string {
+  return subject.emailAddress
+    ? `email:${subject.emailAddress.trim().toLowerCase()}`
+    : `phone:${(subject.phoneNumber ?? '').replace(/[^\d+]/g, '')}`;
+}
+
+function toReport(subject: GongPrivacySubjectArgs, response: GongDataPrivacyResponse): PrivacyDataReport {
+  const calls = response.calls ?? [];
+  const emails = response.emails ?? [];
+  const meetings = response.meetings ?? [];
+  const customerData = response.customerData ?? [];
+  return {
+    subject,
+    matchingPhoneNumbers: response.matchingPhoneNumbers,
+    emailAddresses: response.emailAddresses,
+    counts: {
+      calls: calls.length,
+      emails: emails.length,
+      meetings: meetings.length,
+      customerDataObjects: customerData.reduce((total, system) => total + (system.objects?.length ?? 0), 0)
+    },
+    calls,
+    emails,
+    meetings,
+    customerData
+  };
+}
+
+// Writes one JSON line per privacy tool use to stderr and, when configured, appends it to a file
+export class PrivacyAuditLog {
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  async record(entry: Omit<PrivacyAuditEntry, 'timestamp'>): Promise<void> {
+    const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+    console.error(`🔏 Privacy audit: ${line}`);
+    if (this.filePath) await appendFile(this.filePath, `${line}\n`);
+  }
+}
+
+// Data-privacy lookups and the two-step erase flow, with every step audit-logged
+export class GongDataPrivacy {
+  private client: GongClient;
+  private auditLog: PrivacyAuditLog;
+  private ttlMs: number;
+  private pending = new Map<string, PendingErasure>();
+
+  constructor(client: GongClient, auditLog: PrivacyAuditLog, ttlMs: number = ERASE_CONFIRMATION_TTL_MS) {
+    this.client = client;
+    this.auditLog = auditLog;
+    this.ttlMs = ttlMs;
+  }
+
+  private async fetch(subject: GongPrivacySubjectArgs): Promise<GongDataPrivacyResponse> {
+    return subject.emailAddress
+      ? this.client.getDataForEmailAddress(subject.emailAddress)
+      : this.client.getDataForPhoneNumber(subject.phoneNumber ?? '');
+  }
+
+  private async erase(subject: GongPrivacySubjectArgs): Promise<GongEraseDataResponse> {
+    return subject.emailAddress
+      ? this.client.eraseDataForEmailAddress(subject.emailAddress)
+      : this.client.eraseDataForPhoneNumber(subject.phoneNumber ?? '');
+  }
+
+  private dropExpired(): void {
+    const now = Date.now();
+    for (const [token, erasure] of this.pending) {
+      if (erasure.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+
+  async lookup(tool: string, subject: GongPrivacySubjectArgs, clientId?: string): Promise<PrivacyDataReport> {
+    try {
+      const report = toReport(subject, await this.fetch(subject));
+      await this.auditLog.record({ action: 'lookup', tool, clientId, subject, outcome: 'success' });
+      return report;
+    } catch (error) {
+      await this.auditLog.record({ action: 'lookup', tool, clientId, subject, outcome: 'failure', detail: String(error) });
+      throw error;
+    }
+  }
+
+  // Step one: preview what would be erased and issue a single-use token bound to this subject and client
+  async requestErasure(tool: string, subject: GongPrivacySubjectArgs, clientId?: string): Promise<ErasureRequest> {
+    this.dropExpired();
+    const preview = await this.lookup(tool, subject, clientId);
+    const confirmationToken = randomUUID();
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(confirmationToken, { subjectKey: subjectKey(subject), clientId, expiresAt });
+    await this.auditLog.record({ action: 'erase_requested', tool, clientId, subject, outcome: 'success' });
+
+    return {
+      confirmationRequired: true,
+      confirmationToken,
+      expiresAt: new Date(expiresAt).toISOString(),
+      preview
+    };
+  }
+
+  // Step two: erase only when the token matches the subject and client it was issued for
+  async confirmErasure(tool: string, subject: GongPrivacySubjectArgs, confirmationToken: string, clientId?: string): Promise<ErasureResult> {
+    this.dropExpired();
+    const erasure = this.pending.get(confirmationToken);
+    if (!erasure || erasure.subjectKey !== subjectKey(subject) || erasure.clientId !== clientId) {
+      await this.auditLog.record({ action: 'erase_rejected', tool, clientId, subject, outcome: 'failure', detail: 'Unknown, expired or mismatched confirmation token' });
+      throw new Error('Invalid or expired confirmation token; call erase_privacy_data without a token to request a new one');
+    }
+    this.pending.delete(confirmationToken);
+
+    // Recorded before calling Gong so an erase never happens without an audit entry
+    await this.auditLog.record({ action: 'erase_started', tool, clientId, subject, outcome: 'success' });
+    try {
+      const { requestId } = await this.erase(subject);
+      await this.auditLog.record({ action: 'erase_completed', tool, clientId, subject, outcome: 'success', detail: `Gong requestId ${requestId}` });
+      return { erased: true, subject, requestId };
+    } catch (error) {
+      await this.auditLog.record({ action: 'erase_completed', tool, clientId, subject, outcome: 'failure', detail: String(error) });
+      throw error;
+    }
+  }
+}
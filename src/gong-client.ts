@@ -0,0 +1,615 @@
+import axios, { AxiosError } from 'axios';
+import crypto from 'crypto';
+import {
+  GongApiError,
+  GongApiErrorOptions,
+  GongAuthError,
+  GongNotFoundError,
+  GongRateLimitError,
+  GongServerError,
+} from './gong-errors.js';
+import {
+  GongActivityStatsResponse,
+  GongAnsweredScorecard,
+  GongAnsweredScorecardsFilter,
+  GongAnsweredScorecardsResponse,
+  GongAutoPaginationInfo,
+  GongCall,
+  GongCallDetailSelector,
+  GongCallsExtensiveFilter,
+  GongCallsExtensiveResponse,
+  GongCallTranscript,
+  GongDataPrivacyResponse,
+  GongEraseDataResponse,
+  GongExtensiveCall,
+  GongGetUserResponse,
+  GongInteractionStatsResponse,
+  GongLibraryFolderContentResponse,
+  GongLibraryFoldersResponse,
+  GongListUsersResponse,
+  GongListCallsResponse,
+  GongMeetingRequest,
+  GongMeetingResponse,
+  GongNewCallRequest,
+  GongNewCallResponse,
+  GongLogEntry,
+  GongLogsResponse,
+  GongLogType,
+  GongPaginationInfo,
+  GongPersonInteractionStats,
+  GongRetrieveTranscriptsResponse,
+  GongScorecardsResponse,
+  GongWorkspacesResponse,
+  GongStatsFilter,
+  GongTrackersResponse,
+  GongUserAggregateActivity,
+} from './gong-types.js';
+import { DailyBudget, DailyBudgetStatus, TokenBucket } from './rate-limiter.js';
+import {
+  DEFAULT_DETAILS_CACHE_TTL_MS,
+  DEFAULT_LISTING_CACHE_TTL_MS,
+  GongCacheBackend,
+  cacheBackendFromEnv,
+  currentGongCacheMode,
+} from './response-cache.js';
+
+export const GONG_API_URL = 'https://api.gong.io/v2';
+
+export interface GongClientOptions {
+  baseUrl?: string;
+  // Retries for 429 and 5xx responses and network failures
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // A Retry-After longer than this fails fast instead of stalling the tool call
+  maxRetryAfterMs?: number;
+  // Applied to date-range listings when the caller names no workspace; lookups by call ID stay unscoped
+  defaultWorkspaceId?: string;
+  // Client-side pacing and daily cap, ahead of Gong's own 429s
+  requestsPerSecond?: number;
+  dailyRequestBudget?: number;
+  budgetFile?: string;
+  // Which server is spending the budget, reported by budgetStatus()
+  source?: string;
+  // Transcripts are cached indefinitely, call listings for listingCacheTtlMs, lookups by call ID for detailsCacheTtlMs
+  cache?: GongCacheBackend;
+  listingCacheTtlMs?: number;
+  detailsCacheTtlMs?: number;
+}
+
+// A numeric setting, or undefined to use the default when it is unset or out of range; a typo must not
+// stall every request (zero rate) or silently lift the daily cap (NaN budget)
+function envNumber(name: string, allowZero: boolean = false): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (Number.isFinite(value) && (value > 0 || (allowZero && value === 0))) return value;
+  console.error(`⚠️ Ignoring ${name}=${raw}: expected a ${allowZero ? 'non-negative' : 'positive'} number, using the default`);
+  return undefined;
+}
+
+// Options shared by every server entry point, so they all pace and count against the same key the same way
+export function gongClientOptionsFromEnv(source: string): GongClientOptions {
+  const listingTtlSeconds = envNumber('GONG_CACHE_LISTING_TTL_SECONDS', true);
+  return {
+    defaultWorkspaceId: process.env.GONG_DEFAULT_WORKSPACE_ID,
+    requestsPerSecond: envNumber('GONG_REQUESTS_PER_SECOND'),
+    dailyRequestBudget: envNumber('GONG_DAILY_REQUEST_BUDGET'),
+    budgetFile: process.env.GONG_BUDGET_FILE || undefined,
+    source,
+    cache: cacheBackendFromEnv(),
+    listingCacheTtlMs: listingTtlSeconds === undefined ? undefined : listingTtlSeconds * 1000
+  };
+}
+
+type QueryParams = Record<string, string | number | undefined>;
+
+interface RequestOptions {
+  // Non-idempotent writes are only retried on 429, when Gong is known not to have processed them
+  idempotent?: boolean;
+}
+
+// Upper bound for auto-pagination when the caller does not pass maxRecords
+export const DEFAULT_MAX_RECORDS = 1000;
+
+export interface GongCollectedRecords<T> {
+  items: T[];
+  totalRecords?: number;
+  pagesFetched: number;
+  // True when maxRecords stopped the walk before Gong ran out of pages
+  maxRecordsReached: boolean;
+}
+
+// Walk a page iterator until it is exhausted or maxRecords items were collected
+export async function collectPages<P extends { records?: GongPaginationInfo }, T>(
+  pages: AsyncIterable<P>,
+  select: (page: P) => T[],
+  maxRecords: number = DEFAULT_MAX_RECORDS
+): Promise<GongCollectedRecords<T>> {
+  const items: T[] = [];
+  let pagesFetched = 0;
+  let totalRecords: number | undefined;
+  let maxRecordsReached = false;
+
+  for await (const page of pages) {
+    pagesFetched++;
+    totalRecords = page.records?.totalRecords ?? totalRecords;
+    const pageItems = select(page);
+    const room = maxRecords - items.length;
+    items.push(...pageItems.slice(0, room));
+
+    if (items.length >= maxRecords && (pageItems.length > room || page.records?.cursor)) {
+      maxRecordsReached = true;
+      break;
+    }
+  }
+
+  return { items, totalRecords, pagesFetched, maxRecordsReached };
+}
+
+// Follows records.cursor from page to page until Gong stops returning one
+async function* followCursor<P extends { records?: GongPaginationInfo }>(
+  fetchPage: (cursor?: string) => Promise<P>,
+  cursor?: string
+): AsyncGenerator<P> {
+  let nextCursor = cursor;
+  do {
+    const page = await fetchPage(nextCursor);
+    yield page;
+    nextCursor = page.records?.cursor;
+  } while (nextCursor);
+}
+
+export function toAutoPaginationInfo(collected: GongCollectedRecords<unknown>, maxRecords?: number): GongAutoPaginationInfo {
+  return {
+    totalRecords: collected.totalRecords,
+    returnedRecords: collected.items.length,
+    pagesFetched: collected.pagesFetched,
+    maxRecords: maxRecords ?? DEFAULT_MAX_RECORDS,
+    maxRecordsReached: collected.maxRecordsReached
+  };
+}
+
+export const GONG_CALL_DETAIL_SELECTORS: GongCallDetailSelector[] = [
+  'parties', 'topics', 'trackers', 'pointsOfInterest', 'brief', 'outline', 'highlights', 'crmContext'
+];
+
+// Maps our selector names onto Gong's contentSelector request block
+function buildContentSelector(include: GongCallDetailSelector[]): Record<string, unknown> {
+  const selected = new Set(include);
+  return {
+    context: selected.has('crmContext') ? 'Extended' : 'None',
+    exposedFields: {
+      parties: selected.has('parties'),
+      content: {
+        topics: selected.has('topics'),
+        trackers: selected.has('trackers'),
+        trackerOccurrences: selected.has('trackers'),
+        pointsOfInterest: selected.has('pointsOfInterest'),
+        brief: selected.has('brief'),
+        outline: selected.has('outline'),
+        highlights: selected.has('highlights')
+      }
+    }
+  };
+}
+
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'ECONNREFUSED']);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+// Gong error bodies look like { requestId, errors: ["..."] }
+function describeGongError(data: unknown): { message?: string; requestId?: string } {
+  if (typeof data !== 'object' || data === null) return {};
+  const body = data as { requestId?: unknown; errors?: unknown };
+  const requestId = typeof body.requestId === 'string' ? body.requestId : undefined;
+  const message = Array.isArray(body.errors) && body.errors.length > 0 ? body.errors.join('; ') : undefined;
+  return { message, requestId };
+}
+
+// Gong API Client
+export class GongClient {
+  private accessKey: string;
+  private accessSecret: string;
+  private baseUrl: string;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxRetryAfterMs: number;
+  private rateLimiter: TokenBucket;
+  private dailyBudget: DailyBudget;
+  private cache?: GongCacheBackend;
+  private listingCacheTtlMs: number;
+  private detailsCacheTtlMs: number;
+  readonly defaultWorkspaceId?: string;
+
+  constructor(accessKey: string, accessSecret: string, options: GongClientOptions = {}) {
+    this.accessKey = accessKey;
+    this.accessSecret = accessSecret;
+    this.baseUrl = options.baseUrl ?? GONG_API_URL;
+    this.maxRetries = options.maxRetries ?? 4;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10000;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? 60000;
+    this.defaultWorkspaceId = options.defaultWorkspaceId || undefined;
+    this.rateLimiter = new TokenBucket(options.requestsPerSecond);
+    this.dailyBudget = new DailyBudget(options.dailyRequestBudget, options.budgetFile, options.source);
+    this.cache = options.cache;
+    this.listingCacheTtlMs = options.listingCacheTtlMs ?? DEFAULT_LISTING_CACHE_TTL_MS;
+    this.detailsCacheTtlMs = options.detailsCacheTtlMs ?? DEFAULT_DETAILS_CACHE_TTL_MS;
+  }
+
+  budgetStatus(): DailyBudgetStatus & { queuedRequests: number } {
+    return { ...this.dailyBudget.status(), queuedRequests: this.rateLimiter.queued };
+  }
+
+  // Short-lived processes call this before exiting, since budget writes are otherwise debounced
+  async flushBudget(): Promise<void> {
+    await this.dailyBudget.flush();
+  }
+
+  private generateSignature(method: string, path: string, timestamp: string, params?: unknown): string {
+    const stringToSign = `${method}\n${path}\n${timestamp}\n${params ? JSON.stringify(params) : ''}`;
+    return crypto.createHmac('sha256', this.accessSecret).update(stringToSign).digest('base64');
+  }
+
+  private backoffDelay(attempt: number): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    // Equal jitter: at least half the backoff, so retries still slow down, plus a random half so concurrent
+    // callers sharing one key don't retry in lockstep
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private toGongError(error: unknown, method: string, path: string): GongApiError {
+    if (!axios.isAxiosError(error)) {
+      return new GongApiError(error instanceof Error ? error.message : String(error), { method, path });
+    }
+
+    const status = error.response?.status;
+    const { message: gongMessage, requestId } = describeGongError(error.response?.data);
+    const options: GongApiErrorOptions = { status, method, path, requestId, details: error.response?.data };
+    const message = `Gong API ${method} ${path} failed${status ? ` with status ${status}` : ''}: ${gongMessage ?? error.message}`;
+
+    if (status === 401 || status === 403) return new GongAuthError(message, options);
+    if (status === 404) return new GongNotFoundError(message, options);
+    if (status === 429) {
+      return new GongRateLimitError(message, { ...options, retryAfterMs: parseRetryAfter(error.response?.headers['retry-after']) });
+    }
+    if (status !== undefined && status >= 500) return new GongServerError(message, options);
+    return new GongApiError(message, options);
+  }
+
+  private isRetryable(error: AxiosError, idempotent: boolean): boolean {
+    const status = error.response?.status;
+    if (!idempotent) return status === 429;
+    if (status === undefined) return RETRYABLE_NETWORK_CODES.has(error.code ?? '');
+    return status === 429 || status >= 500;
+  }
+
+  // Serves a response from the cache when the current cache mode allows it, otherwise loads and stores it
+  private async cached<T>(key: string, ttlMs: number | undefined, load: () => Promise<T>): Promise<T> {
+    const mode = currentGongCacheMode();
+    if (!this.cache || mode === 'bypass') return load();
+
+    if (mode === 'default') {
+      const hit = await this.cache.get(key);
+      if (hit) return hit.value as T;
+    }
+    const value = await load();
+    await this.cache.set(key, { value, expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs });
+    return value;
+  }
+
+  private async readCachedTranscripts(callIds: string[], workspaceId?: string): Promise<GongCallTranscript[]> {
+    // Cached transcripts are keyed by call alone, so a workspace filter has to be applied by Gong
+    if (!this.cache || currentGongCacheMode() !== 'default' || workspaceId) return [];
+    const hits: GongCallTranscript[] = [];
+    for (const callId of callIds) {
+      const entry = await this.cache.get(`transcript:${callId}`);
+      if (entry) hits.push(entry.value as GongCallTranscript);
+    }
+    return hits;
+  }
+
+  // A transcript never changes once Gong has produced it, so it is kept without expiry
+  private async storeTranscripts(callTranscripts: GongCallTranscript[]): Promise<void> {
+    if (!this.cache || currentGongCacheMode() === 'bypass') return;
+    for (const callTranscript of callTranscripts) {
+      if (callTranscript.transcript?.length > 0) {
+        await this.cache.set(`transcript:${callTranscript.callId}`, { value: callTranscript });
+      }
+    }
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    params?: QueryParams,
+    data?: Record<string, unknown> | FormData,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const idempotent = options.idempotent ?? true;
+
+    for (let attempt = 0; ; attempt++) {
+      // Every attempt, retries included, is a request Gong counts
+      await this.dailyBudget.consume(method, path);
+      this.rateLimiter.share(this.dailyBudget.activeProcesses());
+      await this.rateLimiter.acquire();
+
+      const timestamp = new Date().toISOString();
+      try {
+        const response = await axios({
+          method,
+          url,
+          params,
+          data,
+          headers: {
+            // axios sets the multipart boundary itself for FormData bodies
+            ...(data instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+            'Authorization': `Basic ${Buffer.from(`${this.accessKey}:${this.accessSecret}`).toString('base64')}`,
+            'X-Gong-AccessKey': this.accessKey,
+            'X-Gong-Timestamp': timestamp,
+            'X-Gong-Signature': this.generateSignature(method, path, timestamp, data || params)
+          }
+        });
+
+        return response.data as T;
+      } catch (error) {
+        if (!axios.isAxiosError(error) || !this.isRetryable(error, idempotent) || attempt >= this.maxRetries) {
+          throw this.toGongError(error, method, path);
+        }
+
+        const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (retryAfterMs !== undefined && retryAfterMs > this.maxRetryAfterMs) {
+          throw this.toGongError(error, method, path);
+        }
+
+        const delay = retryAfterMs ?? this.backoffDelay(attempt);
+        console.error(`⏳ Gong ${method} ${path} returned ${error.response?.status ?? error.code}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  async listCalls(fromDateTime?: string, toDateTime?: string, cursor?: string, limit?: number, workspaceId?: string): Promise<GongListCallsResponse> {
+    const params: QueryParams = {};
+    if (fromDateTime) params.fromDateTime = fromDateTime;
+    if (toDateTime) params.toDateTime = toDateTime;
+    if (cursor) params.cursor = cursor;
+    if (limit) params.limit = limit;
+    params.workspaceId = workspaceId ?? this.defaultWorkspaceId;
+
+    return this.cached(`calls:${JSON.stringify(params)}`, this.listingCacheTtlMs, () => this.request<GongListCallsResponse>('GET', '/calls', params));
+  }
+
+  async retrieveTranscripts(callIds: string[], cursor?: string, limit?: number, workspaceId?: string): Promise<GongRetrieveTranscriptsResponse> {
+    const requestData: Record<string, unknown> = {
+      filter: {
+        callIds,
+        workspaceId,
+        includeEntities: true,
+        includeInteractionsSummary: true,
+        includeTrackers: true
+      }
+    };
+
+    if (cursor) requestData.cursor = cursor;
+    if (limit) requestData.limit = limit;
+
+    // A first page is answered locally only when every requested call is cached, so Gong cursors stay valid
+    if (!cursor) {
+      const hits = await this.readCachedTranscripts(callIds, workspaceId);
+      if (hits.length === callIds.length && hits.length > 0) {
+        return {
+          callTranscripts: hits,
+          records: { totalRecords: hits.length, currentPageSize: hits.length, currentPageNumber: 0 }
+        };
+      }
+    }
+
+    const response = await this.request<GongRetrieveTranscriptsResponse>('POST', '/calls/transcript', undefined, requestData);
+    await this.storeTranscripts(response.callTranscripts ?? []);
+    return response;
+  }
+
+  // Yields one Gong page at a time, following records.cursor until it runs out
+  async *paginateCalls(fromDateTime?: string, toDateTime?: string, limit?: number, cursor?: string, workspaceId?: string): AsyncGenerator<GongListCallsResponse> {
+    yield* followCursor(next => this.listCalls(fromDateTime, toDateTime, next, limit, workspaceId), cursor);
+  }
+
+  async *paginateTranscripts(callIds: string[], limit?: number, cursor?: string, workspaceId?: string): AsyncGenerator<GongRetrieveTranscriptsResponse> {
+    yield* followCursor(next => this.retrieveTranscripts(callIds, next, limit, workspaceId), cursor);
+  }
+
+  async listAllCalls(fromDateTime?: string, toDateTime?: string, maxRecords?: number, cursor?: string, workspaceId?: string): Promise<GongCollectedRecords<GongCall>> {
+    return collectPages(this.paginateCalls(fromDateTime, toDateTime, undefined, cursor, workspaceId), page => page.calls ?? [], maxRecords);
+  }
+
+  async retrieveAllTranscripts(callIds: string[], maxRecords: number = DEFAULT_MAX_RECORDS, cursor?: string, workspaceId?: string): Promise<GongCollectedRecords<GongCallTranscript>> {
+    if (cursor) {
+      return collectPages(this.paginateTranscripts(callIds, undefined, cursor, workspaceId), page => page.callTranscripts ?? [], maxRecords);
+    }
+
+    // Only calls missing from the cache are paged through Gong
+    const cached = await this.readCachedTranscripts(callIds, workspaceId);
+    const cachedIds = new Set(cached.map(callTranscript => callTranscript.callId));
+    const missing = callIds.filter(id => !cachedIds.has(id));
+    if (missing.length === 0 || cached.length >= maxRecords) {
+      return { items: cached.slice(0, maxRecords), totalRecords: callIds.length, pagesFetched: 0, maxRecordsReached: cached.length > maxRecords || missing.length > 0 };
+    }
+
+    const fetched = await collectPages(this.paginateTranscripts(missing, undefined, undefined, workspaceId), page => page.callTranscripts ?? [], maxRecords - cached.length);
+    const order = new Map(callIds.map((id, index) => [id, index]));
+    return {
+      items: [...cached, ...fetched.items].sort((a, b) => (order.get(a.callId) ?? 0) - (order.get(b.callId) ?? 0)),
+      totalRecords: fetched.totalRecords === undefined ? undefined : fetched.totalRecords + cached.length,
+      pagesFetched: fetched.pagesFetched,
+      maxRecordsReached: fetched.maxRecordsReached
+    };
+  }
+
+  async getCallsExtensive(filter: GongCallsExtensiveFilter, include: GongCallDetailSelector[] = GONG_CALL_DETAIL_SELECTORS, cursor?: string): Promise<GongCallsExtensiveResponse> {
+    const requestData: Record<string, unknown> = {
+      filter: { ...filter, workspaceId: filter.workspaceId ?? (filter.callIds ? undefined : this.defaultWorkspaceId) },
+      contentSelector: buildContentSelector(include)
+    };
+
+    if (cursor) requestData.cursor = cursor;
+
+    const ttlMs = filter.callIds ? this.detailsCacheTtlMs : this.listingCacheTtlMs;
+    return this.cached(`extensive:${JSON.stringify(requestData)}`, ttlMs, () =>
+      this.request<GongCallsExtensiveResponse>('POST', '/calls/extensive', undefined, requestData));
+  }
+
+  async *paginateCallsExtensive(filter: GongCallsExtensiveFilter, include?: GongCallDetailSelector[], cursor?: string): AsyncGenerator<GongCallsExtensiveResponse> {
+    yield* followCursor(next => this.getCallsExtensive(filter, include, next), cursor);
+  }
+
+  async getAllCallsExtensive(filter: GongCallsExtensiveFilter, include?: GongCallDetailSelector[], maxRecords?: number): Promise<GongCollectedRecords<GongExtensiveCall>> {
+    return collectPages(this.paginateCallsExtensive(filter, include), page => page.calls ?? [], maxRecords);
+  }
+
+  async listUsers(cursor?: string): Promise<GongListUsersResponse> {
+    const params: QueryParams = {};
+    if (cursor) params.cursor = cursor;
+
+    return this.request<GongListUsersResponse>('GET', '/users', params);
+  }
+
+  async *paginateUsers(cursor?: string): AsyncGenerator<GongListUsersResponse> {
+    yield* followCursor(next => this.listUsers(next), cursor);
+  }
+
+  async getUser(userId: string): Promise<GongGetUserResponse> {
+    return this.request<GongGetUserResponse>('GET', `/users/${encodeURIComponent(userId)}`);
+  }
+
+  async getInteractionStats(filter: GongStatsFilter, cursor?: string): Promise<GongInteractionStatsResponse> {
+    const requestData: Record<string, unknown> = { filter };
+    if (cursor) requestData.cursor = cursor;
+
+    return this.request<GongInteractionStatsResponse>('POST', '/stats/interaction', undefined, requestData);
+  }
+
+  async *paginateInteractionStats(filter: GongStatsFilter, cursor?: string): AsyncGenerator<GongInteractionStatsResponse> {
+    yield* followCursor(next => this.getInteractionStats(filter, next), cursor);
+  }
+
+  async getAllInteractionStats(filter: GongStatsFilter, maxRecords?: number, cursor?: string): Promise<GongCollectedRecords<GongPersonInteractionStats>> {
+    return collectPages(this.paginateInteractionStats(filter, cursor), page => page.peopleInteractionStats ?? [], maxRecords);
+  }
+
+  async getActivityStats(filter: GongStatsFilter, cursor?: string): Promise<GongActivityStatsResponse> {
+    const requestData: Record<string, unknown> = { filter };
+    if (cursor) requestData.cursor = cursor;
+
+    return this.request<GongActivityStatsResponse>('POST', '/stats/activity/aggregate', undefined, requestData);
+  }
+
+  async *paginateActivityStats(filter: GongStatsFilter, cursor?: string): AsyncGenerator<GongActivityStatsResponse> {
+    yield* followCursor(next => this.getActivityStats(filter, next), cursor);
+  }
+
+  async getAllActivityStats(filter: GongStatsFilter, maxRecords?: number, cursor?: string): Promise<GongCollectedRecords<GongUserAggregateActivity>> {
+    return collectPages(this.paginateActivityStats(filter, cursor), page => page.usersAggregateActivityStats ?? [], maxRecords);
+  }
+
+  async listScorecards(workspaceId?: string): Promise<GongScorecardsResponse> {
+    return this.request<GongScorecardsResponse>('GET', '/settings/scorecards', { workspaceId: workspaceId ?? this.defaultWorkspaceId });
+  }
+
+  async getAnsweredScorecards(filter: GongAnsweredScorecardsFilter, cursor?: string): Promise<GongAnsweredScorecardsResponse> {
+    const requestData: Record<string, unknown> = { filter };
+    if (cursor) requestData.cursor = cursor;
+
+    return this.request<GongAnsweredScorecardsResponse>('POST', '/stats/activity/scorecards', undefined, requestData);
+  }
+
+  async *paginateAnsweredScorecards(filter: GongAnsweredScorecardsFilter, cursor?: string): AsyncGenerator<GongAnsweredScorecardsResponse> {
+    yield* followCursor(next => this.getAnsweredScorecards(filter, next), cursor);
+  }
+
+  async getAllAnsweredScorecards(filter: GongAnsweredScorecardsFilter, maxRecords?: number): Promise<GongCollectedRecords<GongAnsweredScorecard>> {
+    return collectPages(this.paginateAnsweredScorecards(filter), page => page.answeredScorecards ?? [], maxRecords);
+  }
+
+  async listWorkspaces(): Promise<GongWorkspacesResponse> {
+    return this.request<GongWorkspacesResponse>('GET', '/workspaces');
+  }
+
+  async listLibraryFolders(workspaceId?: string): Promise<GongLibraryFoldersResponse> {
+    return this.request<GongLibraryFoldersResponse>('GET', '/library/folders', { workspaceId: workspaceId ?? this.defaultWorkspaceId });
+  }
+
+  async getLibraryFolderContent(folderId: string): Promise<GongLibraryFolderContentResponse> {
+    return this.request<GongLibraryFolderContentResponse>('GET', '/library/folder-content', { folderId });
+  }
+
+  async listTrackers(workspaceId?: string): Promise<GongTrackersResponse> {
+    return this.request<GongTrackersResponse>('GET', '/settings/trackers', { workspaceId: workspaceId ?? this.defaultWorkspaceId });
+  }
+
+  async getLogs(logType: GongLogType, fromDateTime: string, toDateTime?: string, cursor?: string): Promise<GongLogsResponse> {
+    const params: QueryParams = { logType, fromDateTime };
+    if (toDateTime) params.toDateTime = toDateTime;
+    if (cursor) params.cursor = cursor;
+
+    return this.request<GongLogsResponse>('GET', '/logs', params);
+  }
+
+  async *paginateLogs(logType: GongLogType, fromDateTime: string, toDateTime?: string, cursor?: string): AsyncGenerator<GongLogsResponse> {
+    yield* followCursor(next => this.getLogs(logType, fromDateTime, toDateTime, next), cursor);
+  }
+
+  async getAllLogs(logType: GongLogType, fromDateTime: string, toDateTime?: string, maxRecords?: number): Promise<GongCollectedRecords<GongLogEntry>> {
+    return collectPages(this.paginateLogs(logType, fromDateTime, toDateTime), page => page.logEntries ?? [], maxRecords);
+  }
+
+  async getDataForEmailAddress(emailAddress: string): Promise<GongDataPrivacyResponse> {
+    return this.request<GongDataPrivacyResponse>('GET', '/data-privacy/data-for-email-address', { emailAddress });
+  }
+
+  async getDataForPhoneNumber(phoneNumber: string): Promise<GongDataPrivacyResponse> {
+    return this.request<GongDataPrivacyResponse>('GET', '/data-privacy/data-for-phone-number', { phoneNumber });
+  }
+
+  async eraseDataForEmailAddress(emailAddress: string): Promise<GongEraseDataResponse> {
+    return this.request<GongEraseDataResponse>('POST', '/data-privacy/erase-data-for-email-address', { emailAddress });
+  }
+
+  async eraseDataForPhoneNumber(phoneNumber: string): Promise<GongEraseDataResponse> {
+    return this.request<GongEraseDataResponse>('POST', '/data-privacy/erase-data-for-phone-number', { phoneNumber });
+  }
+
+  async createMeeting(meeting: GongMeetingRequest): Promise<GongMeetingResponse> {
+    return this.request<GongMeetingResponse>('POST', '/meetings', undefined, { ...meeting }, { idempotent: false });
+  }
+
+  async updateMeeting(meetingId: string, meeting: GongMeetingRequest): Promise<GongMeetingResponse> {
+    return this.request<GongMeetingResponse>('PUT', `/meetings/${encodeURIComponent(meetingId)}`, undefined, { ...meeting });
+  }
+
+  async addCall(call: GongNewCallRequest): Promise<GongNewCallResponse> {
+    return this.request<GongNewCallResponse>('POST', '/calls', undefined, { ...call }, { idempotent: false });
+  }
+
+  // Second step of registering a call: attach the recording to the call created by addCall
+  async uploadCallMedia(callId: string, media: Blob, fileName: string): Promise<GongNewCallResponse> {
+    const form = new FormData();
+    form.append('mediaFile', media, fileName);
+    return this.request<GongNewCallResponse>('PUT', `/calls/${encodeURIComponent(callId)}/media`, undefined, form);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+// Typed errors raised by GongClient
+
+export interface GongApiErrorOptions {
+  status?: number;
+  method: string;
+  path: string;
+  requestId?: string;
+  details?: unknown;
+}
+
+export class GongApiError extends Error {
+  readonly status?: number;
+  readonly method: string;
+  readonly path: string;
+  readonly requestId?: string;
+  readonly details?: unknown;
+
+  constructor(message: string, options: GongApiErrorOptions) {
+    super(message);
+    this.name = 'GongApiError';
+    this.status = options.status;
+    this.method = options.method;
+    this.path = options.path;
+    this.requestId = options.requestId;
+    this.details = options.details;
+  }
+}
+
+// 401 / 403 - bad credentials or missing API scope
+export class GongAuthError extends GongApiError {
+  constructor(message: string, options: GongApiErrorOptions) {
+    super(message, options);
+    this.name = 'GongAuthError';
+  }
+}
+
+// 404 - unknown call, user or other entity
+export class GongNotFoundError extends GongApiError {
+  constructor(message: string, options: GongApiErrorOptions) {
+    super(message, options);
+    this.name = 'GongNotFoundError';
+  }
+}
+
+// 429 - still rate limited after all retries were used up
+export class GongRateLimitError extends GongApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: GongApiErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.name = 'GongRateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// 5xx - still failing after all retries were used up
+export class GongServerError extends GongApiError {
+  constructor(message: string, options: GongApiErrorOptions) {
+    super(message, options);
+    this.name = 'GongServerError';
+  }
+}
+
+// Raised before calling Gong when this key's daily request budget is spent
+export class GongDailyBudgetError extends GongRateLimitError {
+  constructor(message: string, options: GongApiErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.name = 'GongDailyBudgetError';
+  }
+}
@@ -0,0 +1,700 @@
+// Type definitions for Gong API requests and responses
+
+export interface GongCall {
+  id: string;
+  title: string;
+  scheduled?: string;
+  started?: string;
+  duration?: number;
+  direction?: string;
+  system?: string;
+  scope?: string;
+  media?: string;
+  language?: string;
+  url?: string;
+  primaryUserId?: string;
+  workspaceId?: string;
+}
+
+// One monologue: consecutive sentences from a single speaker, offsets in milliseconds
+export interface GongTranscript {
+  speakerId: string;
+  topic?: string;
+  sentences: Array<{
+    start: number;
+    end?: number;
+    text: string;
+  }>;
+}
+
+export interface GongCallTranscript {
+  callId: string;
+  transcript: GongTranscript[];
+}
+
+export interface GongPaginationInfo {
+  totalRecords: number;
+  currentPageSize: number;
+  currentPageNumber: number;
+  cursor?: string;
+}
+
+export interface GongListCallsResponse {
+  calls: GongCall[];
+  records?: GongPaginationInfo;
+}
+
+export interface GongRetrieveTranscriptsResponse {
+  callTranscripts: GongCallTranscript[];
+  records?: GongPaginationInfo;
+}
+
+// /v2/calls/extensive
+export type GongCallDetailSelector =
+  | 'parties'
+  | 'topics'
+  | 'trackers'
+  | 'pointsOfInterest'
+  | 'brief'
+  | 'outline'
+  | 'highlights'
+  | 'crmContext';
+
+export interface GongCallsExtensiveFilter {
+  callIds?: string[];
+  fromDateTime?: string;
+  toDateTime?: string;
+  primaryUserIds?: string[];
+  workspaceId?: string;
+}
+
+export interface GongCallMetaData extends GongCall {
+  purpose?: string;
+  meetingUrl?: string;
+  isPrivate?: boolean;
+  calendarEventId?: string;
+}
+
+export interface GongParty {
+  id: string;
+  emailAddress?: string;
+  name?: string;
+  title?: string;
+  userId?: string;
+  speakerId?: string;
+  affiliation?: 'Internal' | 'External' | 'Unknown';
+  phoneNumber?: string;
+  methods?: string[];
+}
+
+export interface GongCrmObject {
+  objectType: string;
+  objectId: string;
+  fields: Array<{ name: string; value: unknown }>;
+}
+
+export interface GongCallContext {
+  system: string;
+  objects: GongCrmObject[];
+}
+
+export interface GongCallTopic {
+  name: string;
+  duration: number;
+}
+
+export interface GongCallTracker {
+  id: string;
+  name: string;
+  count: number;
+  type?: string;
+  occurrences?: Array<{ startTime: number; speakerId?: string }>;
+}
+
+export interface GongPointsOfInterest {
+  actionItems?: Array<{
+    snippetStartTime: number;
+    snippetEndTime: number;
+    speakerID?: string;
+    snippet: string;
+  }>;
+}
+
+export interface GongCallOutlineSection {
+  section: string;
+  startTime: number;
+  duration: number;
+  items: Array<{ text: string; startTime: number }>;
+}
+
+export interface GongCallHighlight {
+  title: string;
+  items: Array<{ text: string; startTimes: number[] }>;
+}
+
+export interface GongCallContent {
+  topics?: GongCallTopic[];
+  trackers?: GongCallTracker[];
+  pointsOfInterest?: GongPointsOfInterest;
+  brief?: string;
+  outline?: GongCallOutlineSection[];
+  highlights?: GongCallHighlight[];
+}
+
+export interface GongExtensiveCall {
+  metaData: GongCallMetaData;
+  parties?: GongParty[];
+  content?: GongCallContent;
+  context?: GongCallContext[];
+}
+
+export interface GongCallsExtensiveResponse {
+  calls: GongExtensiveCall[];
+  records?: GongPaginationInfo;
+}
+
+// /v2/users
+export interface GongUser {
+  id: string;
+  emailAddress?: string;
+  created?: string;
+  active?: boolean;
+  emailAliases?: string[];
+  firstName?: string;
+  lastName?: string;
+  title?: string;
+  phoneNumber?: string;
+  managerId?: string;
+  spokenLanguages?: Array<{ language: string; primary: boolean }>;
+}
+
+export interface GongListUsersResponse {
+  users: GongUser[];
+  records?: GongPaginationInfo;
+}
+
+export interface GongGetUserResponse {
+  user: GongUser;
+}
+
+// A transcript speaker resolved from the call's parties
+export interface GongSpeaker {
+  speakerId: string;
+  name?: string;
+  email?: string;
+  userId?: string;
+  affiliation: 'internal' | 'external' | 'unknown';
+}
+
+export interface GongEnrichedTranscript extends GongTranscript {
+  speakerName?: string;
+}
+
+export interface GongEnrichedCallTranscript {
+  callId: string;
+  speakers: GongSpeaker[];
+  transcript: GongEnrichedTranscript[];
+}
+
+// /v2/stats/interaction and /v2/stats/activity/aggregate
+export interface GongStatsFilter {
+  fromDate: string;
+  toDate: string;
+  userIds?: string[];
+}
+
+export interface GongPersonInteractionStats {
+  userId: string;
+  userEmailAddress?: string;
+  personInteractionStats: Array<{ name: string; value: number }>;
+}
+
+export interface GongInteractionStatsResponse {
+  peopleInteractionStats: GongPersonInteractionStats[];
+  records?: GongPaginationInfo;
+}
+
+export interface GongAggregateActivityStats {
+  callsAsHost?: number;
+  callsAttended?: number;
+  callsGaveFeedback?: number;
+  callsReceivedFeedback?: number;
+  callsRequestedFeedback?: number;
+  callsScorecardsFilled?: number;
+  callsScorecardsReceived?: number;
+  ownCallsListenedTo?: number;
+  othersCallsListenedTo?: number;
+  callsSharedInternally?: number;
+  callsSharedExternally?: number;
+  callsCommentsGiven?: number;
+  callsCommentsReceived?: number;
+}
+
+export interface GongUserAggregateActivity {
+  userId: string;
+  userEmailAddress?: string;
+  userAggregateActivityStats: GongAggregateActivityStats;
+}
+
+export interface GongActivityStatsResponse {
+  usersAggregateActivityStats: GongUserAggregateActivity[];
+  records?: GongPaginationInfo;
+}
+
+// /v2/settings/scorecards and /v2/stats/activity/scorecards
+export interface GongScorecardQuestion {
+  questionId: string;
+  questionText: string;
+  isOverall?: boolean;
+}
+
+export interface GongScorecard {
+  scorecardId: string;
+  scorecardName: string;
+  workspaceId?: string;
+  enabled?: boolean;
+  created?: string;
+  updated?: string;
+  questions: GongScorecardQuestion[];
+}
+
+export interface GongScorecardsResponse {
+  scorecards: GongScorecard[];
+}
+
+export interface GongAnsweredScorecardsFilter {
+  callFromDate?: string;
+  callToDate?: string;
+  reviewFromDate?: string;
+  reviewToDate?: string;
+  scorecardIds?: string[];
+  reviewedUserIds?: string[];
+}
+
+export interface GongScorecardAnswer {
+  questionId: string;
+  isOverall?: boolean;
+  score?: number;
+  answerText?: string;
+  notApplicable?: boolean;
+}
+
+export interface GongAnsweredScorecard {
+  answeredScorecardId: string;
+  scorecardId: string;
+  scorecardName: string;
+  callId: string;
+  callStartTime?: string;
+  reviewedUserId?: string;
+  reviewerUserId?: string;
+  reviewTime?: string;
+  answers: GongScorecardAnswer[];
+}
+
+export interface GongAnsweredScorecardsResponse {
+  answeredScorecards: GongAnsweredScorecard[];
+  records?: GongPaginationInfo;
+}
+
+// /v2/workspaces
+export interface GongWorkspace {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface GongWorkspacesResponse {
+  workspaces: GongWorkspace[];
+}
+
+// /v2/library/folders and /v2/library/folder-content
+export interface GongLibraryFolder {
+  id: string;
+  name: string;
+  parentFolderId?: string;
+  createdBy?: string;
+  updated?: string;
+}
+
+export interface GongLibraryFoldersResponse {
+  folders: GongLibraryFolder[];
+}
+
+export interface GongLibraryFolderCall {
+  id: string;
+  title: string;
+  note?: string;
+  addedBy?: string;
+  created?: string;
+  url?: string;
+  // Present when the folder holds a clip rather than the whole call
+  snippet?: {
+    fromSec: number;
+    toSec: number;
+  };
+}
+
+export interface GongLibraryFolderContentResponse {
+  id: string;
+  name: string;
+  createdBy?: string;
+  updated?: string;
+  calls: GongLibraryFolderCall[];
+}
+
+// /v2/settings/trackers
+export interface GongKeywordTracker {
+  trackerId: string;
+  trackerName: string;
+  workspaceId?: string;
+  languageKeywords?: Array<{
+    language: string;
+    keywords: string[];
+    includeRelatedForms?: boolean;
+  }>;
+  affiliation?: 'Anyone' | 'Company' | 'NonCompany';
+  partOfQuestion?: boolean;
+  saidInTopics?: string[];
+  filterQuery?: string;
+  created?: string;
+  updated?: string;
+}
+
+export interface GongTrackersResponse {
+  keywordTrackers: GongKeywordTracker[];
+}
+
+// /v2/logs
+export type GongLogType =
+  | 'AccessLog'
+  | 'UserActivityLog'
+  | 'UserCallPlay'
+  | 'ExternallySharedCallAccess'
+  | 'ExternallySharedCallPlay';
+
+export interface GongLogEntry {
+  userId?: string;
+  userEmailAddress?: string;
+  userFullName?: string;
+  impersonatorUserId?: string;
+  impersonatorEmailAddress?: string;
+  impersonatorFullName?: string;
+  impersonatorCompanyId?: string;
+  eventTime: string;
+  // Shape depends on logType
+  logRecord?: Record<string, unknown>;
+}
+
+export interface GongLogsResponse {
+  requestId: string;
+  records: GongPaginationInfo;
+  logEntries: GongLogEntry[];
+}
+
+// /v2/data-privacy
+export interface GongDataPrivacyCall {
+  id: string;
+  title?: string;
+  started?: string;
+  url?: string;
+}
+
+export interface GongDataPrivacyEmail {
+  id: string;
+  from?: string;
+  sentTime?: string;
+  mailbox?: string;
+  messageHash?: string;
+}
+
+export interface GongDataPrivacyMeeting {
+  id: string;
+}
+
+export interface GongDataPrivacyCustomerData {
+  system: string;
+  objects: Array<{
+    id: string;
+    objectType: string;
+  }>;
+}
+
+export interface GongDataPrivacyResponse {
+  requestId: string;
+  calls?: GongDataPrivacyCall[];
+  emails?: GongDataPrivacyEmail[];
+  meetings?: GongDataPrivacyMeeting[];
+  customerData?: GongDataPrivacyCustomerData[];
+  // Phone number lookups only
+  suppliedPhoneNumber?: string;
+  matchingPhoneNumbers?: string[];
+  emailAddresses?: string[];
+}
+
+export interface GongEraseDataResponse {
+  requestId: string;
+}
+
+// /v2/meetings
+export interface GongMeetingInvitee {
+  emailAddress: string;
+  displayName?: string;
+}
+
+export interface GongMeetingRequest {
+  startTime: string;
+  endTime: string;
+  title?: string;
+  organizerEmail: string;
+  invitees: GongMeetingInvitee[];
+  externalId?: string;
+}
+
+export interface GongMeetingResponse {
+  requestId: string;
+  meetingId: string;
+  meetingUrl?: string;
+}
+
+// POST /v2/calls
+export interface GongNewCallParty {
+  userId?: string;
+  emailAddress?: string;
+  name?: string;
+  phoneNumber?: string;
+  mediaChannelId?: number;
+}
+
+export interface GongNewCallRequest {
+  clientUniqueId: string;
+  actualStart: string;
+  title?: string;
+  purpose?: string;
+  scheduledStart?: string;
+  scheduledEnd?: string;
+  duration?: number;
+  direction: 'Inbound' | 'Outbound' | 'Conference' | 'Unknown';
+  primaryUser: string;
+  parties: GongNewCallParty[];
+  // Gong fetches the recording itself when this is set, so no media upload is needed
+  downloadMediaUrl?: string;
+  workspaceId?: string;
+  languageCode?: string;
+  meetingUrl?: string;
+  disposition?: string;
+}
+
+export interface GongNewCallResponse {
+  requestId: string;
+  callId: string;
+  url?: string;
+}
+
+export interface GongListCallsArgs {
+  [key: string]: string | number | boolean | undefined;
+  fromDateTime?: string;
+  toDateTime?: string;
+  cursor?: string;
+  limit?: number;
+  fetchAll?: boolean;
+  maxRecords?: number;
+  workspaceId?: string;
+  // local: answer from the synced call store instead of Gong
+  source?: 'api' | 'local';
+}
+
+export interface GongRetrieveTranscriptsArgs {
+  callIds: string[];
+  cursor?: string;
+  limit?: number;
+  fetchAll?: boolean;
+  maxRecords?: number;
+  resolveSpeakers?: boolean;
+  workspaceId?: string;
+  fromSeconds?: number;
+  toSeconds?: number;
+  // Gong topic name, e.g. "Pricing"
+  topic?: string;
+  source?: 'api' | 'local';
+  format?: 'json' | 'text' | 'markdown' | 'vtt' | 'srt';
+  maxChars?: number;
+  maxTokens?: number;
+  // Server-issued cursor for the next chunk of an output split by maxChars/maxTokens
+  continuationCursor?: string;
+}
+
+export interface GongSyncCallsArgs {
+  mode?: 'incremental' | 'backfill';
+  fromDateTime?: string;
+  toDateTime?: string;
+  // Wait for the run to finish instead of returning once it has started
+  wait?: boolean;
+}
+
+export interface GongSearchTranscriptsArgs {
+  query: string;
+  speakerAffiliation?: 'internal' | 'external';
+  fromDateTime?: string;
+  toDateTime?: string;
+  // Calls outside the local store are searched too when listed here
+  callIds?: string[];
+  workspaceId?: string;
+  limit?: number;
+}
+
+export interface GongCallAnalyticsArgs {
+  callIds: string[];
+  // Default: synced transcripts from the local store, the rest from Gong
+  source?: 'api' | 'local';
+  silenceThresholdSeconds?: number;
+}
+
+export interface GongRepLeaderboardArgs {
+  fromDateTime: string;
+  toDateTime?: string;
+  userIds?: string[];
+  workspaceId?: string;
+  source?: 'api' | 'local';
+  maxCalls?: number;
+  sortBy?: 'calls' | 'talkRatio' | 'questionRate' | 'averageDurationSeconds' | 'externalShare';
+}
+
+export interface GongExtractQuestionsObjectionsArgs {
+  callIds: string[];
+  source?: 'api' | 'local';
+  // Default: external speakers, i.e. the customer side
+  speakerAffiliation?: 'internal' | 'external' | 'any';
+  // Objection categories to report (default: all in the pattern library)
+  categories?: string[];
+  contextSentences?: number;
+}
+
+export interface GongExtractNextStepsArgs {
+  callIds: string[];
+  source?: 'api' | 'local';
+  // Only action items owned by this side
+  owner?: 'rep' | 'customer';
+}
+
+export interface GongGetCallOutlineArgs {
+  callIds: string[];
+  source?: 'api' | 'local';
+  // topic (default): a section per run of the same topic. turn: also a section per speaker turn
+  granularity?: 'topic' | 'turn';
+}
+
+export interface GongFindQuotesArgs {
+  query: string;
+  fromDateTime?: string;
+  toDateTime?: string;
+  // Calls outside the local store are searched too when listed here
+  callIds?: string[];
+  workspaceId?: string;
+  limit?: number;
+}
+
+export interface GongGetCallDetailsArgs {
+  callIds: string[];
+  include?: GongCallDetailSelector[];
+  workspaceId?: string;
+}
+
+export interface GongListUsersArgs {
+  query?: string;
+  includeInactive?: boolean;
+}
+
+export interface GongGetUserArgs {
+  userId?: string;
+  email?: string;
+}
+
+export interface GongStatsArgs {
+  fromDate: string;
+  toDate: string;
+  userIds?: string[];
+  cursor?: string;
+  fetchAll?: boolean;
+  maxRecords?: number;
+  workspaceId?: string;
+}
+
+export interface GongListScorecardsArgs {
+  includeDisabled?: boolean;
+  workspaceId?: string;
+}
+
+export interface GongGetAnsweredScorecardsArgs {
+  fromDate?: string;
+  toDate?: string;
+  callIds?: string[];
+  scorecardIds?: string[];
+  reviewedUserIds?: string[];
+  maxRecords?: number;
+  workspaceId?: string;
+}
+
+export interface GongListLibraryFoldersArgs {
+  workspaceId?: string;
+}
+
+export interface GongGetLibraryFolderCallsArgs {
+  folderId: string;
+}
+
+export interface GongListTrackersArgs {
+  workspaceId?: string;
+}
+
+export interface GongGetTrackerHitsArgs {
+  callIds?: string[];
+  fromDateTime?: string;
+  toDateTime?: string;
+  trackerNames?: string[];
+  workspaceId?: string;
+  maxCalls?: number;
+}
+
+export interface GongGetAuditLogsArgs {
+  logType: GongLogType;
+  fromDateTime: string;
+  toDateTime?: string;
+  userIds?: string[];
+  userEmails?: string[];
+  eventTypes?: string[];
+  maxRecords?: number;
+}
+
+export interface GongPrivacySubjectArgs {
+  emailAddress?: string;
+  phoneNumber?: string;
+}
+
+export interface GongErasePrivacyDataArgs extends GongPrivacySubjectArgs {
+  confirmationToken?: string;
+}
+
+export interface GongCreateMeetingArgs extends GongMeetingRequest {
+  dryRun?: boolean;
+}
+
+export interface GongUpdateMeetingArgs extends GongMeetingRequest {
+  meetingId: string;
+  dryRun?: boolean;
+}
+
+export interface GongRegisterCallArgs extends Omit<GongNewCallRequest, 'clientUniqueId'> {
+  clientUniqueId?: string;
+  // Relative to GONG_MEDIA_UPLOAD_DIR on the server
+  mediaFilePath?: string;
+  dryRun?: boolean;
+}
+
+// Merged result of walking every Gong cursor server-side
+export interface GongAutoPaginationInfo {
+  totalRecords?: number;
+  returnedRecords: number;
+  pagesFetched: number;
+  maxRecords: number;
+  maxRecordsReached: boolean;
+}
@@ -2,13 +2,14 @@
 
 import http from 'http';
 import dotenv from 'dotenv';
-import axios from 'axios';
-import crypto from 'crypto';
 import { URL } from 'url';
+import { GongClient, gongClientOptionsFromEnv } from './gong-client.js';
+import { GongListCallsArgs, GongRetrieveTranscriptsArgs, GongRetrieveTranscriptsResponse } from './gong-types.js';
+import { TRANSCRIPT_CONTENT_TYPES, TranscriptFormat, formatTranscripts, transcriptFormatForAccept } from './transcript-format.js';
+import { enrichCallTranscripts, resolveCallSpeakers } from './transcript-speakers.js';
 
 dotenv.config();
 
-const GONG_API_URL = 'https://api.gong.io/v2';
 const GONG_ACCESS_KEY = process.env.GONG_ACCESS_KEY;
 const GONG_ACCESS_SECRET = process.env.GONG_ACCESS_SECRET;
 const PORT = process.env.PORT || 3000;
@@ -19,144 +20,8 @@ if (!GONG_ACCESS_KEY || !GONG_ACCESS_SECRET) {
   console.error("API endpoints will return errors, but health check will still work");
 }
 
-// Type definitions
-interface GongCall {
-  id: string;
-  title: string;
-  scheduled?: string;
-  started?: string;
-  duration?: number;
-  direction?: string;
-  system?: string;
-  scope?: string;
-  media?: string;
-  language?: string;
-  url?: string;
-}
-
-interface GongTranscript {
-  speakerId: string;
-  topic?: string;
-  sentences: Array<{
-    start: number;
-    text: string;
-  }>;
-}
-
-interface GongPaginationInfo {
-  totalRecords: number;
-  currentPageSize: number;
-  currentPageNumber: number;
-  cursor?: string;
-}
-
-interface GongListCallsResponse {
-  calls: GongCall[];
-  records?: GongPaginationInfo;
-}
-
-interface GongRetrieveTranscriptsResponse {
-  transcripts: GongTranscript[];
-  records?: GongPaginationInfo;
-}
-
-interface GongListCallsArgs {
-  [key: string]: string | number | undefined;
-  fromDateTime?: string;
-  toDateTime?: string;
-  cursor?: string;
-  limit?: number;
-}
-
-interface GongRetrieveTranscriptsArgs {
-  callIds: string[];
-  cursor?: string;
-  limit?: number;
-}
-
-// Gong API Client
-class GongClient {
-  private accessKey: string;
-  private accessSecret: string;
-
-  constructor(accessKey: string, accessSecret: string) {
-    this.accessKey = accessKey;
-    this.accessSecret = accessSecret;
-  }
-
-  private async generateSignature(method: string, path: string, timestamp: string, params?: unknown): Promise<string> {
-    const stringToSign = `${method}\n${path}\n${timestamp}\n${params ? JSON.stringify(params) : ''}`;
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(this.accessSecret);
-    const messageData = encoder.encode(stringToSign);
-    
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-    
-    const signature = await crypto.subtle.sign(
-      'HMAC',
-      cryptoKey,
-      messageData
-    );
-    
-    return btoa(String.fromCharCode(...new Uint8Array(signature)));
-  }
-
-  private async request<T>(method: string, path: string, params?: Record<string, string | number | undefined>, data?: Record<string, unknown>): Promise<T> {
-    const timestamp = new Date().toISOString();
-    const url = `${GONG_API_URL}${path}`;
-    
-    const response = await axios({
-      method,
-      url,
-      params,
-      data,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${Buffer.from(`${this.accessKey}:${this.accessSecret}`).toString('base64')}`,
-        'X-Gong-AccessKey': this.accessKey,
-        'X-Gong-Timestamp': timestamp,
-        'X-Gong-Signature': await this.generateSignature(method, path, timestamp, data || params)
-      }
-    });
-
-    return response.data as T;
-  }
-
-  async listCalls(fromDateTime?: string, toDateTime?: string, cursor?: string, limit?: number): Promise<GongListCallsResponse> {
-    const params: GongListCallsArgs = {};
-    if (fromDateTime) params.fromDateTime = fromDateTime;
-    if (toDateTime) params.toDateTime = toDateTime;
-    if (cursor) params.cursor = cursor;
-    if (limit) params.limit = limit;
-
-    return this.request<GongListCallsResponse>('GET', '/calls', params);
-  }
-
-  async retrieveTranscripts(callIds: string[], cursor?: string, limit?: number): Promise<GongRetrieveTranscriptsResponse> {
-    const requestData: any = {
-      filter: {
-        callIds,
-        includeEntities: true,
-        includeInteractionsSummary: true,
-        includeTrackers: true
-      }
-    };
-
-    if (cursor) requestData.cursor = cursor;
-    if (limit) requestData.limit = limit;
-
-    return this.request<GongRetrieveTranscriptsResponse>('POST', '/calls/transcript', undefined, requestData);
-  }
-}
-
 const gongClient = GONG_ACCESS_KEY && GONG_ACCESS_SECRET ? 
-  new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET) : 
+  new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET, gongClientOptionsFromEnv('rest')) : 
   null;
 
 // Type guards
@@ -202,6 +67,28 @@ async function handleRetrieveTranscripts(args: GongRetrieveTranscriptsArgs) {
   return response;
 }
 
+// JSON keeps Gong's response as-is; other formats resolve speaker names and move pagination into headers
+async function sendTranscripts(res: http.ServerResponse, response: GongRetrieveTranscriptsResponse, format: TranscriptFormat) {
+  if (format === 'json' || !gongClient) {
+    res.writeHead(200, { 'Content-Type': TRANSCRIPT_CONTENT_TYPES.json });
+    res.end(JSON.stringify(response));
+    return;
+  }
+
+  const callTranscripts = response.callTranscripts ?? [];
+  const speakersByCall = await resolveCallSpeakers(gongClient, null, callTranscripts.map(t => t.callId));
+  const headers: Record<string, string | number> = { 'Content-Type': TRANSCRIPT_CONTENT_TYPES[format] };
+  if (response.records) headers['X-Total-Records'] = response.records.totalRecords;
+  if (response.records?.cursor) headers['X-Next-Cursor'] = response.records.cursor;
+  res.writeHead(200, headers);
+  res.end(formatTranscripts(enrichCallTranscripts(callTranscripts, speakersByCall), format));
+}
+
+function sendNotAcceptable(res: http.ServerResponse) {
+  res.writeHead(406, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Not Acceptable', supported: Object.values(TRANSCRIPT_CONTENT_TYPES).map(type => type.split(';')[0]) }));
+}
+
 // Parse URL query parameters
 function parseQueryParams(url: string): Record<string, any> {
   const urlObj = new URL(url, 'http://localhost');
@@ -244,7 +131,8 @@ const server = http.createServer(async (req, res) => {
       res.end(JSON.stringify({ 
         status: 'healthy', 
         timestamp: new Date().toISOString(),
-        service: 'gong-mcp-server'
+        service: 'gong-mcp-server',
+        gongBudget: gongClient?.budgetStatus()
       }));
       return;
     }
@@ -267,6 +155,11 @@ const server = http.createServer(async (req, res) => {
 
     if (req.url?.startsWith('/api/transcripts') && req.method === 'GET') {
       const params = parseQueryParams(req.url);
+      const format = transcriptFormatForAccept(req.headers.accept);
+      if (!format) {
+        sendNotAcceptable(res);
+        return;
+      }
       
       if (!isGongRetrieveTranscriptsArgs(params)) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -275,8 +168,7 @@ const server = http.createServer(async (req, res) => {
       }
 
       const result = await handleRetrieveTranscripts(params);
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(result));
+      await sendTranscripts(res, result, format);
       return;
     }
 
@@ -306,6 +198,11 @@ const server = http.createServer(async (req, res) => {
     }
 
     if (req.url === '/api/transcripts' && req.method === 'POST') {
+      const format = transcriptFormatForAccept(req.headers.accept);
+      if (!format) {
+        sendNotAcceptable(res);
+        return;
+      }
       let body = '';
       req.on('data', chunk => body += chunk.toString());
       req.on('end', async () => {
@@ -319,8 +216,7 @@ const server = http.createServer(async (req, res) => {
           }
 
           const result = await handleRetrieveTranscripts(params);
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify(result));
+          await sendTranscripts(res, result, format);
         } catch (error) {
           res.writeHead(500, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: 'Internal server error' }));
@@ -366,6 +262,7 @@ const server = http.createServer(async (req, res) => {
               cursor: 'Cursor for pagination (optional)',
               limit: 'Maximum number of results (optional, default: 100, max: 100)'
             },
+            formats: 'Pick with the Accept header: application/json (default), text/plain, text/markdown, text/vtt or application/x-subrip. Non-JSON responses carry pagination in X-Total-Records and X-Next-Cursor headers',
             examples: {
               get: '/api/transcripts?callIds=123,456,789&limit=50',
               post: 'POST /api/transcripts with JSON body: {"callIds": ["123", "456"], "limit": 50}'
@@ -7,9 +7,9 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios from 'axios';
 import dotenv from 'dotenv';
-import crypto from 'crypto';
+import { DEFAULT_MAX_RECORDS, GongClient, gongClientOptionsFromEnv, toAutoPaginationInfo } from './gong-client.js';
+import { GongListCallsArgs, GongRetrieveTranscriptsArgs } from './gong-types.js';
 
 // Redirect all console output to stderr
 const originalConsole = { ...console };
@@ -19,7 +19,6 @@ console.warn = (...args) => originalConsole.error(...args);
 
 dotenv.config();
 
-const GONG_API_URL = 'https://api.gong.io/v2';
 const GONG_ACCESS_KEY = process.env.GONG_ACCESS_KEY;
 const GONG_ACCESS_SECRET = process.env.GONG_ACCESS_SECRET;
 
@@ -29,148 +28,12 @@ if (!GONG_ACCESS_KEY || !GONG_ACCESS_SECRET) {
   process.exit(1);
 }
 
-// Type definitions
-interface GongCall {
-  id: string;
-  title: string;
-  scheduled?: string;
-  started?: string;
-  duration?: number;
-  direction?: string;
-  system?: string;
-  scope?: string;
-  media?: string;
-  language?: string;
-  url?: string;
-}
-
-interface GongTranscript {
-  speakerId: string;
-  topic?: string;
-  sentences: Array<{
-    start: number;
-    text: string;
-  }>;
-}
-
-interface GongPaginationInfo {
-  totalRecords: number;
-  currentPageSize: number;
-  currentPageNumber: number;
-  cursor?: string;
-}
-
-interface GongListCallsResponse {
-  calls: GongCall[];
-  records?: GongPaginationInfo;
-}
-
-interface GongRetrieveTranscriptsResponse {
-  transcripts: GongTranscript[];
-  records?: GongPaginationInfo;
-}
-
-interface GongListCallsArgs {
-  [key: string]: string | number | undefined;
-  fromDateTime?: string;
-  toDateTime?: string;
-  cursor?: string;
-  limit?: number;
-}
-
-interface GongRetrieveTranscriptsArgs {
-  callIds: string[];
-  cursor?: string;
-  limit?: number;
-}
-
-// Gong API Client
-class GongClient {
-  private accessKey: string;
-  private accessSecret: string;
-
-  constructor(accessKey: string, accessSecret: string) {
-    this.accessKey = accessKey;
-    this.accessSecret = accessSecret;
-  }
-
-  private async generateSignature(method: string, path: string, timestamp: string, params?: unknown): Promise<string> {
-    const stringToSign = `${method}\n${path}\n${timestamp}\n${params ? JSON.stringify(params) : ''}`;
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(this.accessSecret);
-    const messageData = encoder.encode(stringToSign);
-    
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-    
-    const signature = await crypto.subtle.sign(
-      'HMAC',
-      cryptoKey,
-      messageData
-    );
-    
-    return btoa(String.fromCharCode(...new Uint8Array(signature)));
-  }
-
-  private async request<T>(method: string, path: string, params?: Record<string, string | number | undefined>, data?: Record<string, unknown>): Promise<T> {
-    const timestamp = new Date().toISOString();
-    const url = `${GONG_API_URL}${path}`;
-    
-    const response = await axios({
-      method,
-      url,
-      params,
-      data,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${Buffer.from(`${this.accessKey}:${this.accessSecret}`).toString('base64')}`,
-        'X-Gong-AccessKey': this.accessKey,
-        'X-Gong-Timestamp': timestamp,
-        'X-Gong-Signature': await this.generateSignature(method, path, timestamp, data || params)
-      }
-    });
-
-    return response.data as T;
-  }
-
-  async listCalls(fromDateTime?: string, toDateTime?: string, cursor?: string, limit?: number): Promise<GongListCallsResponse> {
-    const params: GongListCallsArgs = {};
-    if (fromDateTime) params.fromDateTime = fromDateTime;
-    if (toDateTime) params.toDateTime = toDateTime;
-    if (cursor) params.cursor = cursor;
-    if (limit) params.limit = limit;
-
-    return this.request<GongListCallsResponse>('GET', '/calls', params);
-  }
-
-  async retrieveTranscripts(callIds: string[], cursor?: string, limit?: number): Promise<GongRetrieveTranscriptsResponse> {
-    const requestData: any = {
-      filter: {
-        callIds,
-        includeEntities: true,
-        includeInteractionsSummary: true,
-        includeTrackers: true
-      }
-    };
-
-    if (cursor) requestData.cursor = cursor;
-    if (limit) requestData.limit = limit;
-
-    return this.request<GongRetrieveTranscriptsResponse>('POST', '/calls/transcript', undefined, requestData);
-  }
-}
-
-const gongClient = new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET);
+const gongClient = new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET, gongClientOptionsFromEnv('stdio'));
 
 // Tool definitions
 const LIST_CALLS_TOOL: Tool = {
   name: "list_calls",
-  description: "List Gong calls with optional date range filtering and pagination. Returns call details including ID, title, start/end times, participants, and duration. Supports pagination with cursor and limit parameters.",
+  description: "List Gong calls with optional date range filtering and pagination. Returns call details including ID, title, start/end times, participants, and duration. Supports pagination with cursor and limit parameters, or set fetchAll to walk every page server-side.",
   inputSchema: {
     type: "object",
     properties: {
@@ -189,6 +52,14 @@ const LIST_CALLS_TOOL: Tool = {
       limit: {
         type: "integer",
         description: "Maximum number of results to return (default: 100, max: 100)"
+      },
+      fetchAll: {
+        type: "boolean",
+        description: "Follow every Gong cursor server-side and return the merged result instead of a single page"
+      },
+      maxRecords: {
+        type: "integer",
+        description: `Cap on records collected when fetchAll is true (default: ${DEFAULT_MAX_RECORDS})`
       }
     }
   }
@@ -196,7 +67,7 @@ const LIST_CALLS_TOOL: Tool = {
 
 const RETRIEVE_TRANSCRIPTS_TOOL: Tool = {
   name: "retrieve_transcripts",
-  description: "Retrieve transcripts for specified call IDs with pagination support. Returns detailed transcripts including speaker IDs, topics, and timestamped sentences.",
+  description: "Retrieve transcripts for specified call IDs with pagination support. Returns detailed transcripts including speaker IDs, topics, and timestamped sentences. Set fetchAll to walk every page server-side.",
   inputSchema: {
     type: "object",
     properties: {
@@ -212,6 +83,14 @@ const RETRIEVE_TRANSCRIPTS_TOOL: Tool = {
       limit: {
         type: "integer",
         description: "Maximum number of results to return (default: 100, max: 100)"
+      },
+      fetchAll: {
+        type: "boolean",
+        description: "Follow every Gong cursor server-side and return the merged result instead of a single page"
+      },
+      maxRecords: {
+        type: "integer",
+        description: `Cap on records collected when fetchAll is true (default: ${DEFAULT_MAX_RECORDS})`
       }
     },
     required: ["callIds"]
@@ -239,7 +118,9 @@ function isGongListCallsArgs(args: unknown): args is GongListCallsArgs {
     (!("fromDateTime" in args) || typeof (args as GongListCallsArgs).fromDateTime === "string") &&
     (!("toDateTime" in args) || typeof (args as GongListCallsArgs).toDateTime === "string") &&
     (!("cursor" in args) || typeof (args as GongListCallsArgs).cursor === "string") &&
-    (!("limit" in args) || typeof (args as GongListCallsArgs).limit === "number")
+    (!("limit" in args) || typeof (args as GongListCallsArgs).limit === "number") &&
+    (!("fetchAll" in args) || typeof (args as GongListCallsArgs).fetchAll === "boolean") &&
+    (!("maxRecords" in args) || typeof (args as GongListCallsArgs).maxRecords === "number")
   );
 }
 
@@ -251,7 +132,9 @@ function isGongRetrieveTranscriptsArgs(args: unknown): args is GongRetrieveTrans
     Array.isArray((args as GongRetrieveTranscriptsArgs).callIds) &&
     (args as GongRetrieveTranscriptsArgs).callIds.every(id => typeof id === "string") &&
     (!("cursor" in args) || typeof (args as GongRetrieveTranscriptsArgs).cursor === "string") &&
-    (!("limit" in args) || typeof (args as GongRetrieveTranscriptsArgs).limit === "number")
+    (!("limit" in args) || typeof (args as GongRetrieveTranscriptsArgs).limit === "number") &&
+    (!("fetchAll" in args) || typeof (args as GongRetrieveTranscriptsArgs).fetchAll === "boolean") &&
+    (!("maxRecords" in args) || typeof (args as GongRetrieveTranscriptsArgs).maxRecords === "number")
   );
 }
 
@@ -273,8 +156,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request: { params: { name
         if (!isGongListCallsArgs(args)) {
           throw new Error("Invalid arguments for list_calls");
         }
-        const { fromDateTime, toDateTime, cursor, limit } = args;
-        const response = await gongClient.listCalls(fromDateTime, toDateTime, cursor, limit);
+        const { fromDateTime, toDateTime, cursor, limit, fetchAll, maxRecords } = args;
+        let response;
+        if (fetchAll || maxRecords) {
+          const collected = await gongClient.listAllCalls(fromDateTime, toDateTime, maxRecords, cursor);
+          response = { calls: collected.items, records: toAutoPaginationInfo(collected, maxRecords) };
+        } else {
+          response = await gongClient.listCalls(fromDateTime, toDateTime, cursor, limit);
+        }
         return {
           content: [{ 
             type: "text", 
@@ -288,8 +177,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request: { params: { name
         if (!isGongRetrieveTranscriptsArgs(args)) {
           throw new Error("Invalid arguments for retrieve_transcripts");
         }
-        const { callIds, cursor, limit } = args;
-        const response = await gongClient.retrieveTranscripts(callIds, cursor, limit);
+        const { callIds, cursor, limit, fetchAll, maxRecords } = args;
+        let response;
+        if (fetchAll || maxRecords) {
+          const collected = await gongClient.retrieveAllTranscripts(callIds, maxRecords, cursor);
+          response = { callTranscripts: collected.items, records: toAutoPaginationInfo(collected, maxRecords) };
+        } else {
+          response = await gongClient.retrieveTranscripts(callIds, cursor, limit);
+        }
         return {
           content: [{ 
             type: "text", 
@@ -306,11 +201,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request: { params: { name
         };
     }
   } catch (error) {
+    const { remaining, limit } = gongClient.budgetStatus();
     return {
       content: [
         {
           type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error: ${error instanceof Error ? error.message : String(error)} (Gong budget: ${remaining}/${limit} requests left today)`,
         },
       ],
       isError: true,
@@ -9,12 +9,67 @@ import {
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios from 'axios';
 import dotenv from 'dotenv';
-import crypto from 'crypto';
 import http from 'http';
-import { randomUUID } from 'crypto';
+import path from 'path';
+import { randomUUID, timingSafeEqual } from 'crypto';
 import { WebSocketServer, WebSocket } from 'ws';
+import { buildAuditLogsReport } from './audit-logs.js';
+import { DEFAULT_SILENCE_THRESHOLD_SECONDS, buildCallAnalyticsReport } from './call-analytics.js';
+import { buildCallOutlineReport } from './call-outline.js';
+import { DEFAULT_CONTEXT_SENTENCES, MAX_CONTEXT_SENTENCES, ObjectionPatternLibrary, buildQuestionsObjectionsReport } from './call-objections.js';
+import { LocalCallStore } from './call-store.js';
+import { CallSync } from './call-sync.js';
+import { GongDataPrivacy, PrivacyAuditLog } from './data-privacy.js';
+import { DEFAULT_MAX_RECORDS, GONG_CALL_DETAIL_SELECTORS, GongClient, gongClientOptionsFromEnv, toAutoPaginationInfo } from './gong-client.js';
+import { GongApiError, GongRateLimitError } from './gong-errors.js';
+import {
+  GongAutoPaginationInfo,
+  GongCallAnalyticsArgs,
+  GongCallTranscript,
+  GongCreateMeetingArgs,
+  GongEnrichedCallTranscript,
+  GongErasePrivacyDataArgs,
+  GongExtractNextStepsArgs,
+  GongExtractQuestionsObjectionsArgs,
+  GongFindQuotesArgs,
+  GongGetAnsweredScorecardsArgs,
+  GongGetAuditLogsArgs,
+  GongGetCallDetailsArgs,
+  GongGetCallOutlineArgs,
+  GongGetLibraryFolderCallsArgs,
+  GongGetTrackerHitsArgs,
+  GongGetUserArgs,
+  GongListCallsArgs,
+  GongListLibraryFoldersArgs,
+  GongListScorecardsArgs,
+  GongListTrackersArgs,
+  GongListUsersArgs,
+  GongPaginationInfo,
+  GongPersonInteractionStats,
+  GongPrivacySubjectArgs,
+  GongRegisterCallArgs,
+  GongRepLeaderboardArgs,
+  GongRetrieveTranscriptsArgs,
+  GongSearchTranscriptsArgs,
+  GongStatsArgs,
+  GongStatsFilter,
+  GongSyncCallsArgs,
+  GongUpdateMeetingArgs,
+  GongUserAggregateActivity,
+} from './gong-types.js';
+import { buildNextStepsReport } from './next-steps.js';
+import { DEFAULT_LEADERBOARD_MAX_CALLS, buildRepLeaderboard } from './rep-leaderboard.js';
+import { GongCacheMode, withGongCacheMode } from './response-cache.js';
+import { buildAnsweredScorecardsReport } from './scorecards.js';
+import { enrichCallTranscripts, speakersFromCalls } from './transcript-speakers.js';
+import { CHARS_PER_TOKEN, TranscriptChunker } from './transcript-chunks.js';
+import { TRANSCRIPT_FORMATS, TranscriptFormat, formatTranscripts } from './transcript-format.js';
+import { DEFAULT_TRACKER_HITS_MAX_CALLS, buildTrackerHitsReport } from './tracker-hits.js';
+import { DEFAULT_SEARCH_LIMIT, findQuotes, searchTranscripts } from './transcript-search.js';
+import { filterTranscriptTopic, linkTranscriptExcerpts, sliceTranscriptWindow } from './transcript-window.js';
+import { GongUserDirectory, formatUserName } from './user-directory.js';
+import { createMeeting, registerCall, updateMeeting } from './write-actions.js';
 
 // Redirect all console output to stderr
 const originalConsole = { ...console };
@@ -24,7 +79,6 @@ console.warn = (...args) => originalConsole.error(...args);
 
 dotenv.config();
 
-const GONG_API_URL = 'https://api.gong.io/v2';
 const GONG_ACCESS_KEY = process.env.GONG_ACCESS_KEY;
 const GONG_ACCESS_SECRET = process.env.GONG_ACCESS_SECRET;
 
@@ -40,152 +94,108 @@ const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 // OAuth storage (simple in-memory for now)
 const oauthClients = new Map();
 const oauthTokens = new Map();
-const BASE_URL = process.env.RAILWAY_STATIC_URL || `https://gong-mcp-server-pagination-production.up.railway.app`;
-const PROTOCOL = BASE_URL.startsWith('http') ? BASE_URL : `https://${BASE_URL}`;
-
-// Debug counters
-let mcpRequestCount = 0;
-let connectionAttempts = 0;
-
-// Type definitions
-interface GongCall {
-  id: string;
-  title: string;
-  scheduled?: string;
-  started?: string;
-  duration?: number;
-  direction?: string;
-  system?: string;
-  scope?: string;
-  media?: string;
-  language?: string;
-  url?: string;
-}
 
-interface GongTranscript {
-  speakerId: string;
-  topic?: string;
-  sentences: Array<{
-    start: number;
-    text: string;
-  }>;
-}
+// gong:read is always granted; other scopes only to clients in MCP_CLIENT_SCOPES that present their configured secret
+const GONG_READ_SCOPE = 'gong:read';
+const GONG_ADMIN_SCOPE = 'gong:admin';
+const GONG_PRIVACY_SCOPE = 'gong:privacy';
+const GONG_WRITE_SCOPE = 'gong:write';
+const SUPPORTED_SCOPES = [GONG_READ_SCOPE, GONG_ADMIN_SCOPE, GONG_PRIVACY_SCOPE, GONG_WRITE_SCOPE];
 
-interface GongPaginationInfo {
-  totalRecords: number;
-  currentPageSize: number;
-  currentPageNumber: number;
-  cursor?: string;
+interface ClientScopeGrant {
+  secret: string;
+  scopes: string[];
 }
 
-interface GongListCallsResponse {
-  calls: GongCall[];
-  records?: GongPaginationInfo;
+// MCP_CLIENT_SCOPES is JSON: {"<client_id>": {"secret": "...", "scopes": ["gong:admin", ...]}}.
+// A malformed value grants nothing beyond gong:read.
+function parseClientScopeGrants(value?: string): Map<string, ClientScopeGrant> {
+  const grants = new Map<string, ClientScopeGrant>();
+  if (!value) return grants;
+  try {
+    for (const [clientId, grant] of Object.entries(JSON.parse(value) as Record<string, Partial<ClientScopeGrant>>)) {
+      if (typeof grant?.secret !== 'string' || grant.secret.length === 0 || !Array.isArray(grant.scopes)) {
+        console.error(`⚠️ Ignoring MCP_CLIENT_SCOPES entry for ${clientId}: it needs a secret and a scopes array`);
+        continue;
+      }
+      grants.set(clientId, { secret: grant.secret, scopes: grant.scopes.filter(scope => SUPPORTED_SCOPES.includes(scope)) });
+    }
+  } catch (error) {
+    console.error('⚠️ MCP_CLIENT_SCOPES is not valid JSON; only gong:read will be granted:', error);
+  }
+  return grants;
 }
 
-interface GongRetrieveTranscriptsResponse {
-  transcripts: GongTranscript[];
-  records?: GongPaginationInfo;
-}
+const CLIENT_SCOPE_GRANTS = parseClientScopeGrants(process.env.MCP_CLIENT_SCOPES);
 
-interface GongListCallsArgs {
-  [key: string]: string | number | undefined;
-  fromDateTime?: string;
-  toDateTime?: string;
-  cursor?: string;
-  limit?: number;
+function secretsMatch(presented: string, expected: string): boolean {
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
 }
 
-interface GongRetrieveTranscriptsArgs {
-  callIds: string[];
-  cursor?: string;
-  limit?: number;
+// Requested scopes narrowed to what the client may hold: gong:read for anyone, the rest only when the
+// client authenticated with the secret configured for it in MCP_CLIENT_SCOPES
+function grantedScopes(requested: string, clientId: string | null, clientSecret: string | null): string {
+  const grant = clientId ? CLIENT_SCOPE_GRANTS.get(clientId) : undefined;
+  const authenticated = !!grant && !!clientSecret && secretsMatch(clientSecret, grant.secret);
+  const allowed = requested.split(' ').filter(scope => authenticated && grant!.scopes.includes(scope));
+  return [...new Set([GONG_READ_SCOPE, ...allowed])].join(' ');
 }
 
-// Gong API Client
-class GongClient {
-  private accessKey: string;
-  private accessSecret: string;
-
-  constructor(accessKey: string, accessSecret: string) {
-    this.accessKey = accessKey;
-    this.accessSecret = accessSecret;
-  }
-
-  private async generateSignature(method: string, path: string, timestamp: string, params?: unknown): Promise<string> {
-    const stringToSign = `${method}\n${path}\n${timestamp}\n${params ? JSON.stringify(params) : ''}`;
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(this.accessSecret);
-    const messageData = encoder.encode(stringToSign);
-    
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-    
-    const signature = await crypto.subtle.sign(
-      'HMAC',
-      cryptoKey,
-      messageData
-    );
-    
-    return btoa(String.fromCharCode(...new Uint8Array(signature)));
+// Client credentials from HTTP Basic auth (client_secret_basic) or the form body (client_secret_post)
+function clientCredentials(req: http.IncomingMessage, params: URLSearchParams): { clientId: string | null; clientSecret: string | null } {
+  const authHeader = req.headers['authorization'];
+  if (authHeader?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.slice('Basic '.length), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1))
+      };
+    }
   }
+  return { clientId: params.get('client_id'), clientSecret: params.get('client_secret') };
+}
 
-  private async request<T>(method: string, path: string, params?: Record<string, string | number | undefined>, data?: Record<string, unknown>): Promise<T> {
-    const timestamp = new Date().toISOString();
-    const url = `${GONG_API_URL}${path}`;
-    
-    const response = await axios({
-      method,
-      url,
-      params,
-      data,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${Buffer.from(`${this.accessKey}:${this.accessSecret}`).toString('base64')}`,
-        'X-Gong-AccessKey': this.accessKey,
-        'X-Gong-Timestamp': timestamp,
-        'X-Gong-Signature': await this.generateSignature(method, path, timestamp, data || params)
-      }
-    });
+// Tools that need more than gong:read
+const TOOL_SCOPES: Record<string, string> = {
+  get_audit_logs: GONG_ADMIN_SCOPE,
+  get_privacy_data_for_email: GONG_PRIVACY_SCOPE,
+  get_privacy_data_for_phone: GONG_PRIVACY_SCOPE,
+  erase_privacy_data: GONG_PRIVACY_SCOPE,
+  create_meeting: GONG_WRITE_SCOPE,
+  update_meeting: GONG_WRITE_SCOPE,
+  register_call: GONG_WRITE_SCOPE
+};
 
-    return response.data as T;
-  }
+// Who is calling a tool, from their OAuth access token
+interface ToolCallAuth {
+  clientId?: string;
+  scopes: Set<string>;
+}
+const BASE_URL = process.env.RAILWAY_STATIC_URL || `https://gong-mcp-server-pagination-production.up.railway.app`;
+const PROTOCOL = BASE_URL.startsWith('http') ? BASE_URL : `https://${BASE_URL}`;
 
-  async listCalls(fromDateTime?: string, toDateTime?: string, cursor?: string, limit?: number): Promise<GongListCallsResponse> {
-    const params: GongListCallsArgs = {};
-    if (fromDateTime) params.fromDateTime = fromDateTime;
-    if (toDateTime) params.toDateTime = toDateTime;
-    if (cursor) params.cursor = cursor;
-    if (limit) params.limit = limit;
+// Debug counters
+let mcpRequestCount = 0;
+let connectionAttempts = 0;
 
-    return this.request<GongListCallsResponse>('GET', '/calls', params);
-  }
+const gongClient = GONG_ACCESS_KEY && GONG_ACCESS_SECRET ? 
+  new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET, gongClientOptionsFromEnv('mcp-http')) : 
+  null;
 
-  async retrieveTranscripts(callIds: string[], cursor?: string, limit?: number): Promise<GongRetrieveTranscriptsResponse> {
-    const requestData: any = {
-      filter: {
-        callIds,
-        includeEntities: true,
-        includeInteractionsSummary: true,
-        includeTrackers: true
-      }
-    };
+const userDirectory = gongClient ? new GongUserDirectory(gongClient) : null;
 
-    if (cursor) requestData.cursor = cursor;
-    if (limit) requestData.limit = limit;
+const privacyAuditLog = new PrivacyAuditLog(process.env.PRIVACY_AUDIT_LOG_FILE);
+const dataPrivacy = gongClient ? new GongDataPrivacy(gongClient, privacyAuditLog) : null;
 
-    return this.request<GongRetrieveTranscriptsResponse>('POST', '/calls/transcript', undefined, requestData);
-  }
-}
+const callStore = new LocalCallStore(process.env.GONG_STORE_DIR || path.join(process.cwd(), '.gong-store'));
+const callSync = gongClient ? new CallSync(gongClient, userDirectory, callStore) : null;
 
-const gongClient = GONG_ACCESS_KEY && GONG_ACCESS_SECRET ? 
-  new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET) : 
-  null;
+const transcriptChunker = new TranscriptChunker();
+const objectionPatterns = new ObjectionPatternLibrary(process.env.GONG_OBJECTION_PATTERNS_FILE);
 
 if (!gongClient) {
   console.error('⚠️ WARNING: Gong client not initialized - missing GONG_ACCESS_KEY or GONG_ACCESS_SECRET');
@@ -237,9 +247,26 @@ const SUMMARIZE_TRANSCRIPT_PROMPT = {
 };
 
 // Tool definitions
+const WORKSPACE_ID_PROPERTY = {
+  type: "string",
+  description: "Gong workspace ID to scope results to (see list_workspaces). Defaults to the server's configured workspace when one is set."
+};
+
+const CACHE_PROPERTY = {
+  type: "string",
+  enum: ["bypass", "refresh"],
+  description: "bypass: go straight to Gong without touching the response cache. refresh: ignore cached responses and re-cache what Gong returns. Omit to use the cache."
+};
+
+const SOURCE_PROPERTY = {
+  type: "string",
+  enum: ["api", "local"],
+  description: "api (default): ask Gong. local: answer from the calls and transcripts synced by sync_calls, without spending Gong API quota."
+};
+
 const LIST_CALLS_TOOL: Tool = {
   name: "list_calls",
-  description: "List Gong calls with optional date range filtering and pagination. Returns call details including ID, title, start/end times, participants, and duration. Supports pagination with cursor and limit parameters.",
+  description: "List Gong calls with optional date range filtering and pagination. Returns basic call metadata including ID, title, start time, and duration. Use get_call_details for participants, topics and trackers. Supports pagination with cursor and limit parameters, or set fetchAll to walk every page server-side.",
   inputSchema: {
     type: "object",
     properties: {
@@ -260,7 +287,19 @@ const LIST_CALLS_TOOL: Tool = {
         description: "Maximum number of results to return (default: 100, max: 100)",
         minimum: 1,
         maximum: 100
-      }
+      },
+      fetchAll: {
+        type: "boolean",
+        description: "Follow every Gong cursor server-side and return the merged result instead of a single page"
+      },
+      maxRecords: {
+        type: "integer",
+        description: `Cap on records collected when fetchAll is true (default: ${DEFAULT_MAX_RECORDS})`,
+        minimum: 1
+      },
+      workspaceId: WORKSPACE_ID_PROPERTY,
+      cache: CACHE_PROPERTY,
+      source: SOURCE_PROPERTY
     },
     additionalProperties: false
   }
@@ -268,7 +307,7 @@ const LIST_CALLS_TOOL: Tool = {
 
 const RETRIEVE_TRANSCRIPTS_TOOL: Tool = {
   name: "retrieve_transcripts", 
-  description: "Retrieve transcripts for specified call IDs with pagination support. Returns detailed transcripts including speaker IDs, topics, and timestamped sentences.",
+  description: "Retrieve transcripts for specified call IDs with pagination support. Returns detailed transcripts including speakers (name, email, internal/external), topics, and timestamped sentences. Set fetchAll to walk every page server-side.",
   inputSchema: {
     type: "object",
     properties: {
@@ -287,228 +326,2119 @@ const RETRIEVE_TRANSCRIPTS_TOOL: Tool = {
         description: "Maximum number of results to return (default: 100, max: 100)",
         minimum: 1,
         maximum: 100
-      }
+      },
+      fetchAll: {
+        type: "boolean",
+        description: "Follow every Gong cursor server-side and return the merged result instead of a single page"
+      },
+      maxRecords: {
+        type: "integer",
+        description: `Cap on records collected when fetchAll is true (default: ${DEFAULT_MAX_RECORDS})`,
+        minimum: 1
+      },
+      resolveSpeakers: {
+        type: "boolean",
+        description: "Resolve speaker IDs to name, email and internal/external affiliation from the call's parties (default: true)"
+      },
+      workspaceId: {
+        type: "string",
+        description: "Only return transcripts for calls in this Gong workspace"
+      },
+      fromSeconds: {
+        type: "number",
+        description: "Only return sentences starting at or after this many seconds into the call (e.g. a library clip's fromSec)",
+        minimum: 0
+      },
+      toSeconds: {
+        type: "number",
+        description: "Only return sentences starting before this many seconds into the call (e.g. a library clip's toSec)",
+        minimum: 0
+      },
+      topic: {
+        type: "string",
+        description: "Only return speaker turns Gong tagged with this topic (case-insensitive, e.g. Pricing). With topic, fromSeconds or toSeconds set, each turn also gets startSeconds and a url deep-linking to that moment of the Gong recording"
+      },
+      format: {
+        type: "string",
+        enum: TRANSCRIPT_FORMATS,
+        description: "json (default): Gong's structure. text: one \"Speaker [mm:ss]: text\" line per turn, the most compact. markdown: turns grouped under topic headings. vtt / srt: subtitles with one cue per sentence; with several calls, vtt separates them with NOTE blocks and srt marks each call's first cue with its ID. Non-JSON formats return the pagination records in a second content block."
+      },
+      maxChars: {
+        type: "integer",
+        description: "Character budget for the transcript output. Longer output is split at topic, speaker or sentence boundaries and a continuation.cursor is returned for the next chunk",
+        minimum: 200
+      },
+      maxTokens: {
+        type: "integer",
+        description: `Token budget, estimated at ${CHARS_PER_TOKEN} characters per token; behaves like maxChars`,
+        minimum: 50
+      },
+      continuationCursor: {
+        type: "string",
+        description: "continuation.cursor from the previous chunk, passed with the same callIds. Unlike cursor (Gong's pagination between calls), it pages within the transcripts already fetched; other options are ignored"
+      },
+      cache: CACHE_PROPERTY,
+      source: SOURCE_PROPERTY
     },
     required: ["callIds"],
     additionalProperties: false
   }
 };
 
-// MCP Protocol Handler Functions
-function handleInitialize(request: any) {
-  console.error('🎉 Handling initialize request');
-  return {
-    jsonrpc: '2.0',
-    id: request.id,
-    result: {
-      protocolVersion: '2024-11-05',
-      capabilities: {
-        tools: { listChanged: true },
-        resources: { subscribe: false, listChanged: true },
-        prompts: { listChanged: true }
+const GET_CALL_DETAILS_TOOL: Tool = {
+  name: "get_call_details",
+  description: "Get extended details for specific Gong calls: who was on the call (parties with affiliation), topics, trackers that fired, points of interest, Gong's brief/outline/highlights, and CRM context. Use the include list to pick which sections to fetch.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Array of Gong call IDs to fetch details for",
+        minItems: 1
       },
-      serverInfo: {
-        name: 'gong-mcp-server',
-        version: '0.1.0'
-      }
-    }
-  };
-}
+      include: {
+        type: "array",
+        items: { type: "string", enum: GONG_CALL_DETAIL_SELECTORS },
+        description: "Sections to include (default: all). parties = participants; crmContext = linked CRM objects."
+      },
+      workspaceId: {
+        type: "string",
+        description: "Only return calls in this Gong workspace"
+      },
+      cache: CACHE_PROPERTY
+    },
+    required: ["callIds"],
+    additionalProperties: false
+  }
+};
 
-function handleToolsList(request: any) {
-  console.error('🔧 Handling tools/list request');
-  // Don't include nextCursor if we don't have pagination
-  const result: any = {
-    tools: [LIST_CALLS_TOOL, RETRIEVE_TRANSCRIPTS_TOOL]
-  };
-  
-  // Only add nextCursor if there's actually a next page
-  // MCP spec expects it to be omitted or a string, not null
-  
-  return {
-    jsonrpc: '2.0',
-    id: request.id,
-    result
-  };
-}
+const LIST_USERS_TOOL: Tool = {
+  name: "list_users",
+  description: "List Gong users (reps, managers and other internal people) from a cached copy of the Gong user directory. Optionally filter by a name, email or title substring.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Case-insensitive substring to match against name, email or title"
+      },
+      includeInactive: {
+        type: "boolean",
+        description: "Include deactivated users (default: false)"
+      }
+    },
+    additionalProperties: false
+  }
+};
 
-function handleResourcesList(request: any) {
-  console.error('📚 Handling resources/list request');
-  // Don't include nextCursor unless we have pagination
-  const result: any = {
-    resources: [GONG_CALL_RESOURCE]
-  };
-  
-  return {
-    jsonrpc: '2.0',
-    id: request.id,
-    result
-  };
-}
+const GET_USER_TOOL: Tool = {
+  name: "get_user",
+  description: "Get a single Gong user by user ID or email address.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      userId: {
+        type: "string",
+        description: "Gong user ID"
+      },
+      email: {
+        type: "string",
+        description: "Email address or alias of the user"
+      }
+    },
+    additionalProperties: false
+  }
+};
 
-function handleResourceRead(request: any) {
-  console.error('📖 Handling resource read request');
-  return {
-    jsonrpc: '2.0',
-    id: request.id,
-    result: {
-      contents: [{
-        uri: request.params.uri,
-        mimeType: 'application/json',
-        text: JSON.stringify({
-          message: 'Gong resource access',
-          uri: request.params.uri,
-          available_calls: 'Use list_calls tool to retrieve'
-        })
-      }]
+// Shared by the Gong stats tools, which all take a date range and optional users
+const STATS_INPUT_SCHEMA: Tool['inputSchema'] = {
+  type: "object",
+  properties: {
+    fromDate: {
+      type: "string",
+      description: "Start date in YYYY-MM-DD format (inclusive)"
+    },
+    toDate: {
+      type: "string",
+      description: "End date in YYYY-MM-DD format (exclusive)"
+    },
+    userIds: {
+      type: "array",
+      items: { type: "string" },
+      description: "Gong user IDs to limit stats to (default: all users). Use list_users to look up IDs."
+    },
+    cursor: {
+      type: "string",
+      description: "Cursor for pagination. Use the cursor value from the previous response to get the next page of results."
+    },
+    fetchAll: {
+      type: "boolean",
+      description: "Follow every Gong cursor server-side and return the merged result instead of a single page"
+    },
+    maxRecords: {
+      type: "integer",
+      description: `Cap on records collected when fetchAll is true (default: ${DEFAULT_MAX_RECORDS})`,
+      minimum: 1
+    },
+    workspaceId: {
+      ...WORKSPACE_ID_PROPERTY,
+      description: `${WORKSPACE_ID_PROPERTY.description} Stats are limited to reps who hosted calls in the workspace during the date range.`
     }
-  };
-}
+  },
+  required: ["fromDate", "toDate"],
+  additionalProperties: false
+};
 
-function handlePromptsList(request: any) {
-  console.error('💭 Handling prompts/list request');
-  // Don't include nextCursor unless we have pagination
-  const result: any = {
-    prompts: [ANALYZE_CALLS_PROMPT, SUMMARIZE_TRANSCRIPT_PROMPT]
-  };
-  
-  return {
-    jsonrpc: '2.0',
-    id: request.id,
-    result
-  };
-}
+const GET_INTERACTION_STATS_TOOL: Tool = {
+  name: "get_interaction_stats",
+  description: "Get Gong's per-rep interaction stats for a date range: talk ratio, longest monologue, longest customer story, interactivity, patience and question rate.",
+  inputSchema: STATS_INPUT_SCHEMA
+};
 
-function handlePromptGet(request: any) {
-  console.error('📝 Handling prompt get request');
-  const promptName = request.params?.name;
-  let prompt = null;
-  
-  if (promptName === 'analyze_calls') {
-    prompt = ANALYZE_CALLS_PROMPT;
-  } else if (promptName === 'summarize_transcript') {
-    prompt = SUMMARIZE_TRANSCRIPT_PROMPT;
+const GET_ACTIVITY_STATS_TOOL: Tool = {
+  name: "get_activity_stats",
+  description: "Get Gong's aggregated per-user activity for a date range: calls hosted and attended, calls listened to, feedback, scorecards, comments and shares.",
+  inputSchema: STATS_INPUT_SCHEMA
+};
+
+const LIST_SCORECARDS_TOOL: Tool = {
+  name: "list_scorecards",
+  description: "List Gong scorecard definitions with their questions.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      includeDisabled: {
+        type: "boolean",
+        description: "Include scorecards that are disabled in Gong (default: false)"
+      },
+      workspaceId: WORKSPACE_ID_PROPERTY
+    },
+    additionalProperties: false
   }
-  
-  if (!prompt) {
-    return {
-      jsonrpc: '2.0',
-      id: request.id,
-      error: { code: -32602, message: 'Prompt not found' }
-    };
+};
+
+const GET_ANSWERED_SCORECARDS_TOOL: Tool = {
+  name: "get_answered_scorecards",
+  description: "Get answered Gong scorecards for a call date range or a set of calls. Each review is joined with the call title, reviewer and reviewed rep names, and question text. Includes a per-question average score summary, lowest first.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      fromDate: {
+        type: "string",
+        description: "Earliest call date in YYYY-MM-DD format (inclusive)"
+      },
+      toDate: {
+        type: "string",
+        description: "Latest call date in YYYY-MM-DD format (exclusive)"
+      },
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return scorecards answered for these calls"
+      },
+      scorecardIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return answers to these scorecards (see list_scorecards)"
+      },
+      reviewedUserIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return scorecards reviewing these Gong users"
+      },
+      maxRecords: {
+        type: "integer",
+        description: `Cap on answered scorecards collected (default: ${DEFAULT_MAX_RECORDS})`,
+        minimum: 1
+      },
+      workspaceId: WORKSPACE_ID_PROPERTY,
+      cache: CACHE_PROPERTY
+    },
+    additionalProperties: false
   }
-  
-  return {
-    jsonrpc: '2.0',
-    id: request.id,
-    result: {
-      description: prompt.description,
-      messages: [{
-        role: 'user',
-        content: {
-          type: 'text',
-          text: `Execute ${prompt.name}: ${prompt.description}`
+};
+
+const LIST_WORKSPACES_TOOL: Tool = {
+  name: "list_workspaces",
+  description: "List the Gong workspaces in this company, with the workspace the server defaults to. Pass a workspace ID to other tools to keep results from different teams or regions apart.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    additionalProperties: false
+  }
+};
+
+const LIST_LIBRARY_FOLDERS_TOOL: Tool = {
+  name: "list_library_folders",
+  description: "List Gong library folders, where teams keep curated example calls and clips (e.g. best discovery calls).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      workspaceId: WORKSPACE_ID_PROPERTY
+    },
+    additionalProperties: false
+  }
+};
+
+const GET_LIBRARY_FOLDER_CALLS_TOOL: Tool = {
+  name: "get_library_folder_calls",
+  description: "List the calls and clips in a Gong library folder. Clips carry their start and end times, and each entry includes ready-made retrieve_transcripts arguments that fetch just that clip's transcript window.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      folderId: {
+        type: "string",
+        description: "Library folder ID from list_library_folders"
+      }
+    },
+    required: ["folderId"],
+    additionalProperties: false
+  }
+};
+
+const LIST_TRACKERS_TOOL: Tool = {
+  name: "list_trackers",
+  description: "List Gong keyword tracker definitions (e.g. competitor mentions, pricing) with their keywords per language.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      workspaceId: WORKSPACE_ID_PROPERTY
+    },
+    additionalProperties: false
+  }
+};
+
+const GET_TRACKER_HITS_TOOL: Tool = {
+  name: "get_tracker_hits",
+  description: "Show which trackers fired on each call, with a timeline of hits: timestamp, speaker and the transcript sentence that triggered it. Provide callIds or a date range.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Calls to inspect"
+      },
+      fromDateTime: {
+        type: "string",
+        description: "Start date/time in ISO format (e.g. 2024-03-01T00:00:00Z)"
+      },
+      toDateTime: {
+        type: "string",
+        description: "End date/time in ISO format (e.g. 2024-03-31T23:59:59Z)"
+      },
+      trackerNames: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only report trackers whose name contains one of these (case-insensitive)"
+      },
+      maxCalls: {
+        type: "integer",
+        description: `Cap on calls scanned (default: ${DEFAULT_TRACKER_HITS_MAX_CALLS})`,
+        minimum: 1
+      },
+      workspaceId: WORKSPACE_ID_PROPERTY,
+      cache: CACHE_PROPERTY
+    },
+    additionalProperties: false
+  }
+};
+
+const GET_AUDIT_LOGS_TOOL: Tool = {
+  name: "get_audit_logs",
+  description: "Get Gong audit log events (e.g. who accessed or played call recordings) for a time range, with a per-user event count. Pages through all logs and filters by user or event type. Requires the gong:admin OAuth scope.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      logType: {
+        type: "string",
+        enum: ["AccessLog", "UserActivityLog", "UserCallPlay", "ExternallySharedCallAccess", "ExternallySharedCallPlay"],
+        description: "Which Gong log to read"
+      },
+      fromDateTime: {
+        type: "string",
+        description: "Start date/time in ISO format (e.g. 2024-03-01T00:00:00Z)"
+      },
+      toDateTime: {
+        type: "string",
+        description: "End date/time in ISO format (e.g. 2024-03-31T23:59:59Z)"
+      },
+      userIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return events by these Gong users"
+      },
+      userEmails: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return events by users with these email addresses"
+      },
+      eventTypes: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only return events of these types (case-insensitive)"
+      },
+      maxRecords: {
+        type: "integer",
+        description: `Cap on log entries scanned before filtering (default: ${DEFAULT_MAX_RECORDS})`,
+        minimum: 1
+      }
+    },
+    required: ["logType", "fromDateTime"],
+    additionalProperties: false
+  }
+};
+
+const PRIVACY_EMAIL_PROPERTY = {
+  type: "string",
+  description: "Email address of the data subject"
+};
+
+const PRIVACY_PHONE_PROPERTY = {
+  type: "string",
+  description: "Phone number of the data subject, ideally in E.164 format (e.g. +14155550100)"
+};
+
+const GET_PRIVACY_DATA_FOR_EMAIL_TOOL: Tool = {
+  name: "get_privacy_data_for_email",
+  description: "Find everything Gong holds that references an email address (calls, emails, meetings, CRM objects), e.g. for a GDPR access request. Requires the gong:privacy OAuth scope; every use is audit-logged.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      emailAddress: PRIVACY_EMAIL_PROPERTY
+    },
+    required: ["emailAddress"],
+    additionalProperties: false
+  }
+};
+
+const GET_PRIVACY_DATA_FOR_PHONE_TOOL: Tool = {
+  name: "get_privacy_data_for_phone",
+  description: "Find everything Gong holds that references a phone number (calls, emails, meetings, CRM objects), e.g. for a GDPR access request. Requires the gong:privacy OAuth scope; every use is audit-logged.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      phoneNumber: PRIVACY_PHONE_PROPERTY
+    },
+    required: ["phoneNumber"],
+    additionalProperties: false
+  }
+};
+
+const ERASE_PRIVACY_DATA_TOOL: Tool = {
+  name: "erase_privacy_data",
+  annotations: {
+    title: "Erase Gong data for a person",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  description: "Permanently erase all Gong data for an email address or phone number. Call once without confirmationToken to get a preview and a token, then call again with the same subject and the token to erase. Requires the gong:privacy OAuth scope; every step is audit-logged.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      emailAddress: PRIVACY_EMAIL_PROPERTY,
+      phoneNumber: PRIVACY_PHONE_PROPERTY,
+      confirmationToken: {
+        type: "string",
+        description: "Token returned by the first call; valid for 10 minutes and only for the same subject"
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+const DRY_RUN_PROPERTY = {
+  type: "boolean",
+  description: "Validate and return the Gong requests that would be sent, without sending them (default: false)"
+};
+
+const MEETING_PROPERTIES = {
+  startTime: {
+    type: "string",
+    description: "Meeting start in ISO format (e.g. 2024-03-01T15:00:00Z)"
+  },
+  endTime: {
+    type: "string",
+    description: "Meeting end in ISO format"
+  },
+  title: {
+    type: "string",
+    description: "Meeting title"
+  },
+  organizerEmail: {
+    type: "string",
+    description: "Email of the Gong user organizing the meeting"
+  },
+  invitees: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        emailAddress: { type: "string" },
+        displayName: { type: "string" }
+      },
+      required: ["emailAddress"]
+    },
+    description: "People invited to the meeting"
+  },
+  externalId: {
+    type: "string",
+    description: "Your own ID for the meeting, e.g. the calendar event ID"
+  },
+  dryRun: DRY_RUN_PROPERTY
+};
+
+// Writes reach real calendars and recordings in Gong and cannot be rolled back through this server
+const WRITE_TOOL_ANNOTATIONS = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  openWorldHint: true
+};
+
+const CREATE_MEETING_TOOL: Tool = {
+  name: "create_meeting",
+  description: "Create a Gong meeting so Gong records it. Invitees receive calendar invitations. Use dryRun to preview. Requires the gong:write OAuth scope.",
+  annotations: { title: "Create Gong meeting", ...WRITE_TOOL_ANNOTATIONS, idempotentHint: false },
+  inputSchema: {
+    type: "object",
+    properties: MEETING_PROPERTIES,
+    required: ["startTime", "endTime", "organizerEmail", "invitees"],
+    additionalProperties: false
+  }
+};
+
+const UPDATE_MEETING_TOOL: Tool = {
+  name: "update_meeting",
+  description: "Replace the time, title and invitees of an existing Gong meeting. Use dryRun to preview. Requires the gong:write OAuth scope.",
+  annotations: { title: "Update Gong meeting", ...WRITE_TOOL_ANNOTATIONS, idempotentHint: true },
+  inputSchema: {
+    type: "object",
+    properties: {
+      meetingId: {
+        type: "string",
+        description: "Gong meeting ID returned by create_meeting"
+      },
+      ...MEETING_PROPERTIES
+    },
+    required: ["meetingId", "startTime", "endTime", "organizerEmail", "invitees"],
+    additionalProperties: false
+  }
+};
+
+const REGISTER_CALL_TOOL: Tool = {
+  name: "register_call",
+  description: "Register a recorded call in Gong (POST /v2/calls) and attach its recording, either from a URL Gong downloads or a file in the server's upload directory. Use dryRun to preview. Requires the gong:write OAuth scope.",
+  annotations: { title: "Register uploaded Gong call", ...WRITE_TOOL_ANNOTATIONS, idempotentHint: false },
+  inputSchema: {
+    type: "object",
+    properties: {
+      clientUniqueId: {
+        type: "string",
+        description: "Your unique ID for the call; Gong rejects duplicates. Generated when omitted"
+      },
+      actualStart: {
+        type: "string",
+        description: "When the call started, in ISO format"
+      },
+      title: {
+        type: "string",
+        description: "Call title"
+      },
+      purpose: {
+        type: "string",
+        description: "Call purpose"
+      },
+      duration: {
+        type: "number",
+        description: "Call duration in seconds"
+      },
+      direction: {
+        type: "string",
+        enum: ["Inbound", "Outbound", "Conference", "Unknown"],
+        description: "Call direction"
+      },
+      primaryUser: {
+        type: "string",
+        description: "Gong user ID of the rep who owns the call"
+      },
+      parties: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            userId: { type: "string" },
+            emailAddress: { type: "string" },
+            name: { type: "string" },
+            phoneNumber: { type: "string" },
+            mediaChannelId: { type: "integer" }
+          }
+        },
+        description: "Call participants"
+      },
+      downloadMediaUrl: {
+        type: "string",
+        description: "URL Gong downloads the recording from"
+      },
+      mediaFilePath: {
+        type: "string",
+        description: "Recording file to upload, relative to the server's GONG_MEDIA_UPLOAD_DIR"
+      },
+      languageCode: {
+        type: "string",
+        description: "Spoken language, e.g. en-US"
+      },
+      workspaceId: WORKSPACE_ID_PROPERTY,
+      dryRun: DRY_RUN_PROPERTY
+    },
+    required: ["actualStart", "direction", "primaryUser", "parties"],
+    additionalProperties: false
+  }
+};
+
+const SYNC_CALLS_TOOL: Tool = {
+  name: "sync_calls",
+  description: "Pull calls and speaker-resolved transcripts from Gong into the server's local store, so list_calls and retrieve_transcripts can answer with source: \"local\". incremental picks up calls since the last sync; backfill loads a date range. Runs in the background unless wait is true; check progress with get_sync_status.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mode: {
+        type: "string",
+        enum: ["incremental", "backfill"],
+        description: "incremental (default): calls since the last sync's watermark. backfill: calls between fromDateTime and toDateTime"
+      },
+      fromDateTime: {
+        type: "string",
+        description: "Backfill start in ISO format (required for backfill)"
+      },
+      toDateTime: {
+        type: "string",
+        description: "End of the sync window in ISO format (default: now)"
+      },
+      wait: {
+        type: "boolean",
+        description: "Wait for the sync to finish and return its summary (default: false)"
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+const GET_SYNC_STATUS_TOOL: Tool = {
+  name: "get_sync_status",
+  description: "Report the local call store: whether a sync is running and its progress, the incremental watermark, the last run, calls still waiting for a transcript, and how many calls and transcripts are stored.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    additionalProperties: false
+  }
+};
+
+const SEARCH_TRANSCRIPTS_TOOL: Tool = {
+  name: "search_transcripts",
+  description: "Search transcripts synced by sync_calls, plus any calls listed in callIds (read from the response cache or Gong), and return BM25-ranked snippets with call title, speaker and sentence timestamp. Each speaker turn is matched on its own. Supports \"quoted phrases\", AND (implied between terms), OR, NOT or a leading -, and parentheses, e.g. SOC2 OR \"security review\" -pricing.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Search query; operators AND, OR and NOT must be upper case"
+      },
+      speakerAffiliation: {
+        type: "string",
+        enum: ["internal", "external"],
+        description: "Only match what internal (your company) or external (customer/prospect) speakers said"
+      },
+      fromDateTime: {
+        type: "string",
+        description: "Only search calls that started at or after this ISO date/time"
+      },
+      toDateTime: {
+        type: "string",
+        description: "Only search calls that started at or before this ISO date/time"
+      },
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only search these calls; ones that are not synced are fetched through the response cache"
+      },
+      workspaceId: {
+        type: "string",
+        description: "Only search synced calls in this Gong workspace"
+      },
+      limit: {
+        type: "integer",
+        description: `Maximum number of snippets to return (default: ${DEFAULT_SEARCH_LIMIT})`,
+        minimum: 1,
+        maximum: 100
+      },
+      cache: CACHE_PROPERTY
+    },
+    required: ["query"],
+    additionalProperties: false
+  }
+};
+
+const CALL_ANALYTICS_TOOL: Tool = {
+  name: "call_analytics",
+  description: "Compute conversation metrics for calls from their transcripts, without Gong's stats API: talk time and talk ratio per speaker and per side (internal/external), longest monologue, questions asked per side, speaker switches per minute, and silence gaps.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Gong call IDs to analyze",
+        minItems: 1
+      },
+      source: {
+        type: "string",
+        enum: ["api", "local"],
+        description: "api: always read transcripts from Gong. local: only use calls synced by sync_calls. Default: synced transcripts first, Gong for the rest."
+      },
+      silenceThresholdSeconds: {
+        type: "number",
+        description: `Shortest pause counted as a silence gap (default: ${DEFAULT_SILENCE_THRESHOLD_SECONDS})`,
+        minimum: 0.5
+      },
+      cache: CACHE_PROPERTY
+    },
+    required: ["callIds"],
+    additionalProperties: false
+  }
+};
+
+const REP_LEADERBOARD_TOOL: Tool = {
+  name: "rep_leaderboard",
+  description: "Rank reps (each call's primary Gong user) over a date range by call volume, average call duration, talk ratio, questions asked per hour and external speaker share, with weekly buckets and the change from the previous week. Metrics are computed from transcripts, so Gong's stats API is not needed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      fromDateTime: {
+        type: "string",
+        description: "Start date/time in ISO format (e.g. 2024-03-01T00:00:00Z)"
+      },
+      toDateTime: {
+        type: "string",
+        description: "End date/time in ISO format (e.g. 2024-03-31T23:59:59Z). Week-over-week compares the week containing it with the week before, when the range covers both."
+      },
+      userIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only include these reps (Gong user IDs)"
+      },
+      sortBy: {
+        type: "string",
+        enum: ["calls", "talkRatio", "questionRate", "averageDurationSeconds", "externalShare"],
+        description: "Metric to rank by, highest first (default: calls)"
+      },
+      maxCalls: {
+        type: "integer",
+        description: `Cap on calls analyzed (default: ${DEFAULT_LEADERBOARD_MAX_CALLS})`,
+        minimum: 1
+      },
+      workspaceId: WORKSPACE_ID_PROPERTY,
+      source: SOURCE_PROPERTY,
+      cache: CACHE_PROPERTY
+    },
+    required: ["fromDateTime"],
+    additionalProperties: false
+  }
+};
+
+const EXTRACT_QUESTIONS_OBJECTIONS_TOOL: Tool = {
+  name: "extract_questions_and_objections",
+  description: "Find customer questions and objections in call transcripts with deterministic rules (no LLM): questions are sentences ending in '?', objections match a pattern library with price, timing, competitor, security and authority categories by default. Each hit has the speaker, timestamp, a deep link and the surrounding sentences, with per-category totals for trending across calls. Categories can be replaced or added through the JSON file at GONG_OBJECTION_PATTERNS_FILE.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Gong call IDs to scan",
+        minItems: 1
+      },
+      speakerAffiliation: {
+        type: "string",
+        enum: ["external", "internal", "any"],
+        description: "Whose sentences to scan (default: external, the customer side)"
+      },
+      categories: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only report these objection categories (default: all, e.g. price, timing, competitor, security, authority)"
+      },
+      contextSentences: {
+        type: "integer",
+        description: `Sentences of context to include before and after each hit (default: ${DEFAULT_CONTEXT_SENTENCES})`,
+        minimum: 0,
+        maximum: MAX_CONTEXT_SENTENCES
+      },
+      source: SOURCE_PROPERTY,
+      cache: CACHE_PROPERTY
+    },
+    required: ["callIds"],
+    additionalProperties: false
+  }
+};
+
+const EXTRACT_NEXT_STEPS_TOOL: Tool = {
+  name: "extract_next_steps",
+  description: "Find commitments and next steps in call transcripts (\"I'll send\", \"let's meet next Tuesday\", \"can you loop in legal\") with deterministic rules. Each action item has its owner side (rep or customer), the due date resolved from relative phrases against the call's start date, the quote, timestamp and a deep link.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Gong call IDs to scan",
+        minItems: 1
+      },
+      owner: {
+        type: "string",
+        enum: ["rep", "customer"],
+        description: "Only return action items owned by this side"
+      },
+      source: SOURCE_PROPERTY,
+      cache: CACHE_PROPERTY
+    },
+    required: ["callIds"],
+    additionalProperties: false
+  }
+};
+
+const GET_CALL_OUTLINE_TOOL: Tool = {
+  name: "get_call_outline",
+  description: "Get a table of contents for calls: sections of consecutive sentences on the same Gong topic, each with start and end time, duration, main speakers, a short excerpt quoted from the section and a deep link. Use it to navigate a long call, then read a section with retrieve_transcripts' fromSeconds/toSeconds.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Gong call IDs to outline",
+        minItems: 1
+      },
+      granularity: {
+        type: "string",
+        enum: ["topic", "turn"],
+        description: "topic (default): one section per run of the same topic. turn: also start a section at every change of speaker"
+      },
+      source: SOURCE_PROPERTY,
+      cache: CACHE_PROPERTY
+    },
+    required: ["callIds"],
+    additionalProperties: false
+  }
+};
+
+const FIND_QUOTES_TOOL: Tool = {
+  name: "find_quotes",
+  description: "Find verbatim customer quotes: sentences by external speakers that match a query, in transcripts synced by sync_calls plus any calls listed in callIds. Each match is widened by the same speaker's adjacent sentences in that turn, and overlapping matches are merged into one quote. Each quote has the speaker's name and company (email domain), the call title and a Gong link that opens the recording at the matching sentence. Uses the search_transcripts query syntax, matched against each sentence; newest calls first.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Search query, e.g. onboarding OR \"getting started\"; operators AND, OR and NOT must be upper case"
+      },
+      fromDateTime: {
+        type: "string",
+        description: "Only search calls that started at or after this ISO date/time"
+      },
+      toDateTime: {
+        type: "string",
+        description: "Only search calls that started at or before this ISO date/time"
+      },
+      callIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only search these calls; ones that are not synced are fetched through the response cache"
+      },
+      workspaceId: {
+        type: "string",
+        description: "Only search synced calls in this Gong workspace"
+      },
+      limit: {
+        type: "integer",
+        description: `Maximum number of quotes to return (default: ${DEFAULT_SEARCH_LIMIT})`,
+        minimum: 1,
+        maximum: 100
+      },
+      cache: CACHE_PROPERTY
+    },
+    required: ["query"],
+    additionalProperties: false
+  }
+};
+
+const GONG_TOOLS: Tool[] = [
+  LIST_WORKSPACES_TOOL,
+  LIST_CALLS_TOOL,
+  RETRIEVE_TRANSCRIPTS_TOOL,
+  GET_CALL_DETAILS_TOOL,
+  LIST_USERS_TOOL,
+  GET_USER_TOOL,
+  GET_INTERACTION_STATS_TOOL,
+  GET_ACTIVITY_STATS_TOOL,
+  LIST_SCORECARDS_TOOL,
+  GET_ANSWERED_SCORECARDS_TOOL,
+  LIST_LIBRARY_FOLDERS_TOOL,
+  GET_LIBRARY_FOLDER_CALLS_TOOL,
+  LIST_TRACKERS_TOOL,
+  GET_TRACKER_HITS_TOOL,
+  GET_AUDIT_LOGS_TOOL,
+  GET_PRIVACY_DATA_FOR_EMAIL_TOOL,
+  GET_PRIVACY_DATA_FOR_PHONE_TOOL,
+  ERASE_PRIVACY_DATA_TOOL,
+  CREATE_MEETING_TOOL,
+  UPDATE_MEETING_TOOL,
+  REGISTER_CALL_TOOL,
+  SYNC_CALLS_TOOL,
+  GET_SYNC_STATUS_TOOL,
+  SEARCH_TRANSCRIPTS_TOOL,
+  CALL_ANALYTICS_TOOL,
+  REP_LEADERBOARD_TOOL,
+  EXTRACT_QUESTIONS_OBJECTIONS_TOOL,
+  EXTRACT_NEXT_STEPS_TOOL,
+  GET_CALL_OUTLINE_TOOL,
+  FIND_QUOTES_TOOL
+];
+
+// MCP Protocol Handler Functions
+function handleInitialize(request: any) {
+  console.error('🎉 Handling initialize request');
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result: {
+      protocolVersion: '2024-11-05',
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { subscribe: false, listChanged: true },
+        prompts: { listChanged: true }
+      },
+      serverInfo: {
+        name: 'gong-mcp-server',
+        version: '0.1.0'
+      }
+    }
+  };
+}
+
+function handleToolsList(request: any) {
+  console.error('🔧 Handling tools/list request');
+  // Don't include nextCursor if we don't have pagination
+  const result: any = {
+    tools: GONG_TOOLS
+  };
+  
+  // Only add nextCursor if there's actually a next page
+  // MCP spec expects it to be omitted or a string, not null
+  
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result
+  };
+}
+
+function handleResourcesList(request: any) {
+  console.error('📚 Handling resources/list request');
+  // Don't include nextCursor unless we have pagination
+  const result: any = {
+    resources: [GONG_CALL_RESOURCE]
+  };
+  
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result
+  };
+}
+
+function handleResourceRead(request: any) {
+  console.error('📖 Handling resource read request');
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result: {
+      contents: [{
+        uri: request.params.uri,
+        mimeType: 'application/json',
+        text: JSON.stringify({
+          message: 'Gong resource access',
+          uri: request.params.uri,
+          available_calls: 'Use list_calls tool to retrieve'
+        })
+      }]
+    }
+  };
+}
+
+function handlePromptsList(request: any) {
+  console.error('💭 Handling prompts/list request');
+  // Don't include nextCursor unless we have pagination
+  const result: any = {
+    prompts: [ANALYZE_CALLS_PROMPT, SUMMARIZE_TRANSCRIPT_PROMPT]
+  };
+  
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result
+  };
+}
+
+// Grounds an action_items summary in the next steps extract_next_steps finds, rather than leaving them to the model
+async function actionItemsPromptText(client: GongClient, callId: string): Promise<string> {
+  const report = await buildNextStepsReport(client, userDirectory, callStore, { callIds: [callId] });
+  if (report.calls.length === 0) {
+    return `Gong has no transcript for call ${callId} yet, so there are no action items to summarize.`;
+  }
+  return [
+    `Summarize the action items from Gong call ${callId}. The items below were extracted from call ${callId}'s transcript, each with its owner side (rep or customer), due date, supporting quote and timestamp.`,
+    'Group them by owner, keep each due date and timestamp, merge duplicates, and do not add action items that no quote supports.',
+    '',
+    JSON.stringify(report.calls[0], null, 2)
+  ].join('\n');
+}
+
+async function handlePromptGet(request: any) {
+  console.error('📝 Handling prompt get request');
+  const promptName = request.params?.name;
+  const promptArgs = request.params?.arguments ?? {};
+  let prompt = null;
+  
+  if (promptName === 'analyze_calls') {
+    prompt = ANALYZE_CALLS_PROMPT;
+  } else if (promptName === 'summarize_transcript') {
+    prompt = SUMMARIZE_TRANSCRIPT_PROMPT;
+  }
+  
+  if (!prompt) {
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: -32602, message: 'Prompt not found' }
+    };
+  }
+
+  let text = `Execute ${prompt.name}: ${prompt.description}`;
+  if (prompt === SUMMARIZE_TRANSCRIPT_PROMPT && promptArgs.summary_type === 'action_items' && promptArgs.call_id && gongClient) {
+    try {
+      text = await actionItemsPromptText(gongClient, String(promptArgs.call_id));
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32603, message: `Could not extract action items: ${error instanceof Error ? error.message : String(error)}` }
+      };
+    }
+  }
+  
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result: {
+      description: prompt.description,
+      messages: [{
+        role: 'user',
+        content: {
+          type: 'text',
+          text
+        }
+      }]
+    }
+  };
+}
+
+function handleInitialized(request: any) {
+  console.error('✅ Handling initialized notification - no response needed');
+  return null; // Notifications don't need responses
+}
+
+function handlePing(request: any) {
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result: {}
+  };
+}
+
+// Type guards
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+function isGongGetCallDetailsArgs(args: unknown): args is GongGetCallDetailsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    "callIds" in args &&
+    Array.isArray((args as GongGetCallDetailsArgs).callIds) &&
+    (args as GongGetCallDetailsArgs).callIds.every(id => typeof id === "string") &&
+    (!("include" in args) || (
+      Array.isArray((args as GongGetCallDetailsArgs).include) &&
+      (args as GongGetCallDetailsArgs).include!.every(selector => GONG_CALL_DETAIL_SELECTORS.includes(selector))
+    )) &&
+    (!("workspaceId" in args) || typeof (args as GongGetCallDetailsArgs).workspaceId === "string")
+  );
+}
+
+function isGongListUsersArgs(args: unknown): args is GongListUsersArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    (!("query" in args) || typeof (args as GongListUsersArgs).query === "string") &&
+    (!("includeInactive" in args) || typeof (args as GongListUsersArgs).includeInactive === "boolean")
+  );
+}
+
+function isGongGetUserArgs(args: unknown): args is GongGetUserArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    ("userId" in args || "email" in args) &&
+    (!("userId" in args) || typeof (args as GongGetUserArgs).userId === "string") &&
+    (!("email" in args) || typeof (args as GongGetUserArgs).email === "string")
+  );
+}
+
+function isGongStatsArgs(args: unknown): args is GongStatsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongStatsArgs).fromDate === "string" &&
+    typeof (args as GongStatsArgs).toDate === "string" &&
+    (!("userIds" in args) || isStringArray((args as GongStatsArgs).userIds)) &&
+    (!("cursor" in args) || typeof (args as GongStatsArgs).cursor === "string") &&
+    (!("fetchAll" in args) || typeof (args as GongStatsArgs).fetchAll === "boolean") &&
+    (!("maxRecords" in args) || typeof (args as GongStatsArgs).maxRecords === "number") &&
+    (!("workspaceId" in args) || typeof (args as GongStatsArgs).workspaceId === "string")
+  );
+}
+
+function isGongListScorecardsArgs(args: unknown): args is GongListScorecardsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    (!("includeDisabled" in args) || typeof (args as GongListScorecardsArgs).includeDisabled === "boolean") &&
+    (!("workspaceId" in args) || typeof (args as GongListScorecardsArgs).workspaceId === "string")
+  );
+}
+
+function isGongGetAnsweredScorecardsArgs(args: unknown): args is GongGetAnsweredScorecardsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    ("fromDate" in args || "toDate" in args || "callIds" in args) &&
+    (!("fromDate" in args) || typeof (args as GongGetAnsweredScorecardsArgs).fromDate === "string") &&
+    (!("toDate" in args) || typeof (args as GongGetAnsweredScorecardsArgs).toDate === "string") &&
+    (!("callIds" in args) || isStringArray((args as GongGetAnsweredScorecardsArgs).callIds)) &&
+    (!("scorecardIds" in args) || isStringArray((args as GongGetAnsweredScorecardsArgs).scorecardIds)) &&
+    (!("reviewedUserIds" in args) || isStringArray((args as GongGetAnsweredScorecardsArgs).reviewedUserIds)) &&
+    (!("maxRecords" in args) || typeof (args as GongGetAnsweredScorecardsArgs).maxRecords === "number") &&
+    (!("workspaceId" in args) || typeof (args as GongGetAnsweredScorecardsArgs).workspaceId === "string")
+  );
+}
+
+function isGongListLibraryFoldersArgs(args: unknown): args is GongListLibraryFoldersArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    (!("workspaceId" in args) || typeof (args as GongListLibraryFoldersArgs).workspaceId === "string")
+  );
+}
+
+function isGongGetLibraryFolderCallsArgs(args: unknown): args is GongGetLibraryFolderCallsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongGetLibraryFolderCallsArgs).folderId === "string"
+  );
+}
+
+function isGongListTrackersArgs(args: unknown): args is GongListTrackersArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    (!("workspaceId" in args) || typeof (args as GongListTrackersArgs).workspaceId === "string")
+  );
+}
+
+function isGongGetTrackerHitsArgs(args: unknown): args is GongGetTrackerHitsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    ("callIds" in args || "fromDateTime" in args) &&
+    (!("callIds" in args) || isStringArray((args as GongGetTrackerHitsArgs).callIds)) &&
+    (!("fromDateTime" in args) || typeof (args as GongGetTrackerHitsArgs).fromDateTime === "string") &&
+    (!("toDateTime" in args) || typeof (args as GongGetTrackerHitsArgs).toDateTime === "string") &&
+    (!("trackerNames" in args) || isStringArray((args as GongGetTrackerHitsArgs).trackerNames)) &&
+    (!("maxCalls" in args) || typeof (args as GongGetTrackerHitsArgs).maxCalls === "number") &&
+    (!("workspaceId" in args) || typeof (args as GongGetTrackerHitsArgs).workspaceId === "string")
+  );
+}
+
+function isGongGetAuditLogsArgs(args: unknown): args is GongGetAuditLogsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongGetAuditLogsArgs).logType === "string" &&
+    typeof (args as GongGetAuditLogsArgs).fromDateTime === "string" &&
+    (!("toDateTime" in args) || typeof (args as GongGetAuditLogsArgs).toDateTime === "string") &&
+    (!("userIds" in args) || isStringArray((args as GongGetAuditLogsArgs).userIds)) &&
+    (!("userEmails" in args) || isStringArray((args as GongGetAuditLogsArgs).userEmails)) &&
+    (!("eventTypes" in args) || isStringArray((args as GongGetAuditLogsArgs).eventTypes)) &&
+    (!("maxRecords" in args) || typeof (args as GongGetAuditLogsArgs).maxRecords === "number")
+  );
+}
+
+function isGongPrivacySubjectArgs(args: unknown): args is GongPrivacySubjectArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    // Exactly one subject, so an erase can never cover more than was previewed
+    ("emailAddress" in args) !== ("phoneNumber" in args) &&
+    (!("emailAddress" in args) || typeof (args as GongPrivacySubjectArgs).emailAddress === "string") &&
+    (!("phoneNumber" in args) || typeof (args as GongPrivacySubjectArgs).phoneNumber === "string")
+  );
+}
+
+function isGongErasePrivacyDataArgs(args: unknown): args is GongErasePrivacyDataArgs {
+  return (
+    isGongPrivacySubjectArgs(args) &&
+    (!("confirmationToken" in args) || typeof (args as GongErasePrivacyDataArgs).confirmationToken === "string")
+  );
+}
+
+function isGongMeetingArgs(args: unknown): args is GongCreateMeetingArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongCreateMeetingArgs).startTime === "string" &&
+    typeof (args as GongCreateMeetingArgs).endTime === "string" &&
+    typeof (args as GongCreateMeetingArgs).organizerEmail === "string" &&
+    Array.isArray((args as GongCreateMeetingArgs).invitees) &&
+    (args as GongCreateMeetingArgs).invitees.every(invitee => typeof invitee?.emailAddress === "string") &&
+    (!("title" in args) || typeof (args as GongCreateMeetingArgs).title === "string") &&
+    (!("externalId" in args) || typeof (args as GongCreateMeetingArgs).externalId === "string") &&
+    (!("dryRun" in args) || typeof (args as GongCreateMeetingArgs).dryRun === "boolean")
+  );
+}
+
+function isGongUpdateMeetingArgs(args: unknown): args is GongUpdateMeetingArgs {
+  return isGongMeetingArgs(args) && typeof (args as GongUpdateMeetingArgs).meetingId === "string";
+}
+
+function isGongSyncCallsArgs(args: unknown): args is GongSyncCallsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    (!("mode" in args) || ["incremental", "backfill"].includes((args as GongSyncCallsArgs).mode as string)) &&
+    (!("fromDateTime" in args) || typeof (args as GongSyncCallsArgs).fromDateTime === "string") &&
+    (!("toDateTime" in args) || typeof (args as GongSyncCallsArgs).toDateTime === "string") &&
+    (!("wait" in args) || typeof (args as GongSyncCallsArgs).wait === "boolean")
+  );
+}
+
+function isGongSearchTranscriptsArgs(args: unknown): args is GongSearchTranscriptsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongSearchTranscriptsArgs).query === "string" &&
+    (!("speakerAffiliation" in args) || ["internal", "external"].includes((args as GongSearchTranscriptsArgs).speakerAffiliation as string)) &&
+    (!("fromDateTime" in args) || typeof (args as GongSearchTranscriptsArgs).fromDateTime === "string") &&
+    (!("toDateTime" in args) || typeof (args as GongSearchTranscriptsArgs).toDateTime === "string") &&
+    (!("callIds" in args) || isStringArray((args as GongSearchTranscriptsArgs).callIds)) &&
+    (!("workspaceId" in args) || typeof (args as GongSearchTranscriptsArgs).workspaceId === "string") &&
+    (!("limit" in args) || typeof (args as GongSearchTranscriptsArgs).limit === "number")
+  );
+}
+
+function isGongCallAnalyticsArgs(args: unknown): args is GongCallAnalyticsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    isStringArray((args as GongCallAnalyticsArgs).callIds) &&
+    (!("source" in args) || ["api", "local"].includes((args as GongCallAnalyticsArgs).source as string)) &&
+    (!("silenceThresholdSeconds" in args) || typeof (args as GongCallAnalyticsArgs).silenceThresholdSeconds === "number")
+  );
+}
+
+function isGongRepLeaderboardArgs(args: unknown): args is GongRepLeaderboardArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongRepLeaderboardArgs).fromDateTime === "string" &&
+    (!("toDateTime" in args) || typeof (args as GongRepLeaderboardArgs).toDateTime === "string") &&
+    (!("userIds" in args) || isStringArray((args as GongRepLeaderboardArgs).userIds)) &&
+    (!("workspaceId" in args) || typeof (args as GongRepLeaderboardArgs).workspaceId === "string") &&
+    (!("source" in args) || ["api", "local"].includes((args as GongRepLeaderboardArgs).source as string)) &&
+    (!("maxCalls" in args) || typeof (args as GongRepLeaderboardArgs).maxCalls === "number") &&
+    (!("sortBy" in args) || ["calls", "talkRatio", "questionRate", "averageDurationSeconds", "externalShare"].includes((args as GongRepLeaderboardArgs).sortBy as string))
+  );
+}
+
+function isGongExtractQuestionsObjectionsArgs(args: unknown): args is GongExtractQuestionsObjectionsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    isStringArray((args as GongExtractQuestionsObjectionsArgs).callIds) &&
+    (!("source" in args) || ["api", "local"].includes((args as GongExtractQuestionsObjectionsArgs).source as string)) &&
+    (!("speakerAffiliation" in args) || ["internal", "external", "any"].includes((args as GongExtractQuestionsObjectionsArgs).speakerAffiliation as string)) &&
+    (!("categories" in args) || isStringArray((args as GongExtractQuestionsObjectionsArgs).categories)) &&
+    (!("contextSentences" in args) || typeof (args as GongExtractQuestionsObjectionsArgs).contextSentences === "number")
+  );
+}
+
+function isGongExtractNextStepsArgs(args: unknown): args is GongExtractNextStepsArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    isStringArray((args as GongExtractNextStepsArgs).callIds) &&
+    (!("source" in args) || ["api", "local"].includes((args as GongExtractNextStepsArgs).source as string)) &&
+    (!("owner" in args) || ["rep", "customer"].includes((args as GongExtractNextStepsArgs).owner as string))
+  );
+}
+
+function isGongGetCallOutlineArgs(args: unknown): args is GongGetCallOutlineArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    isStringArray((args as GongGetCallOutlineArgs).callIds) &&
+    (!("source" in args) || ["api", "local"].includes((args as GongGetCallOutlineArgs).source as string)) &&
+    (!("granularity" in args) || ["topic", "turn"].includes((args as GongGetCallOutlineArgs).granularity as string))
+  );
+}
+
+function isGongFindQuotesArgs(args: unknown): args is GongFindQuotesArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongFindQuotesArgs).query === "string" &&
+    (!("fromDateTime" in args) || typeof (args as GongFindQuotesArgs).fromDateTime === "string") &&
+    (!("toDateTime" in args) || typeof (args as GongFindQuotesArgs).toDateTime === "string") &&
+    (!("callIds" in args) || isStringArray((args as GongFindQuotesArgs).callIds)) &&
+    (!("workspaceId" in args) || typeof (args as GongFindQuotesArgs).workspaceId === "string") &&
+    (!("limit" in args) || typeof (args as GongFindQuotesArgs).limit === "number")
+  );
+}
+
+function isGongRegisterCallArgs(args: unknown): args is GongRegisterCallArgs {
+  return (
+    typeof args === "object" &&
+    args !== null &&
+    typeof (args as GongRegisterCallArgs).actualStart === "string" &&
+    typeof (args as GongRegisterCallArgs).direction === "string" &&
+    typeof (args as GongRegisterCallArgs).primaryUser === "string" &&
+    Array.isArray((args as GongRegisterCallArgs).parties) &&
+    (args as GongRegisterCallArgs).parties.every(party => typeof party === "object" && party !== null) &&
+    (!("clientUniqueId" in args) || typeof (args as GongRegisterCallArgs).clientUniqueId === "string") &&
+    (!("downloadMediaUrl" in args) || typeof (args as GongRegisterCallArgs).downloadMediaUrl === "string") &&
+    (!("mediaFilePath" in args) || typeof (args as GongRegisterCallArgs).mediaFilePath === "string") &&
+    (!("workspaceId" in args) || typeof (args as GongRegisterCallArgs).workspaceId === "string") &&
+    (!("dryRun" in args) || typeof (args as GongRegisterCallArgs).dryRun === "boolean")
+  );
+}
+
+// Upper bound on calls scanned when working out which reps belong to a workspace
+const WORKSPACE_USER_SCAN_LIMIT = 5000;
+
+// Gong's stats endpoints want plain dates, so trim any time part the model sends.
+// They also have no workspace filter, so a workspace is narrowed to the reps who hosted calls in it.
+async function toStatsFilter(client: GongClient, args: GongStatsArgs): Promise<{ filter: GongStatsFilter; workspaceId?: string }> {
+  const { userIds } = args;
+  const fromDate = args.fromDate.slice(0, 10);
+  const toDate = args.toDate.slice(0, 10);
+  const workspaceId = args.workspaceId ?? client.defaultWorkspaceId;
+  const filter: GongStatsFilter = { fromDate, toDate };
+  if (userIds && userIds.length > 0) filter.userIds = userIds;
+  if (!workspaceId) return { filter };
+
+  const { items: calls } = await client.listAllCalls(`${fromDate}T00:00:00Z`, `${toDate}T00:00:00Z`, WORKSPACE_USER_SCAN_LIMIT, undefined, workspaceId);
+  const hosts = new Set(calls.map(call => call.primaryUserId).filter((id): id is string => Boolean(id)));
+  filter.userIds = filter.userIds ? filter.userIds.filter(id => hosts.has(id)) : [...hosts];
+  return { filter, workspaceId };
+}
+
+type TranscriptToolResponse = { callTranscripts: Array<GongCallTranscript | GongEnrichedCallTranscript> } & Record<string, unknown>;
+
+// Non-JSON formats send the formatted transcript first and the rest of the response (records, missingCallIds) as a second block
+function transcriptContent(response: TranscriptToolResponse, format: TranscriptFormat) {
+  if (format === "json") {
+    return [{ type: "text", text: JSON.stringify(response, null, 2) }];
+  }
+  const { callTranscripts, ...rest } = response;
+  return [
+    { type: "text", text: formatTranscripts(callTranscripts, format) },
+    { type: "text", text: JSON.stringify(rest, null, 2) }
+  ];
+}
+
+async function handleToolCall(request: any, auth: ToolCallAuth = { scopes: new Set() }): Promise<any> {
+  console.error('🛠️ Handling tool call:', request.params?.name);
+  try {
+    const { name, arguments: args } = request.params;
+
+    // Strip the cache option and re-run the call with it applied to every Gong request the tool makes
+    if (args && "cache" in args) {
+      if (!GONG_TOOLS.find(tool => tool.name === name)?.inputSchema.properties?.cache) {
+        throw new Error(`Invalid cache option for ${name}: this tool does not read through the response cache`);
+      }
+      const { cache, ...toolArgs } = args;
+      if (cache !== "bypass" && cache !== "refresh") {
+        throw new Error(`Invalid cache option for ${name}: use "bypass" or "refresh"`);
+      }
+      return withGongCacheMode(cache as GongCacheMode, () =>
+        handleToolCall({ ...request, params: { ...request.params, arguments: toolArgs } }, auth));
+    }
+
+    const requiredScope = TOOL_SCOPES[name];
+    if (requiredScope && !auth.scopes.has(requiredScope)) {
+      console.error(`🔒 Refused ${name}: token lacks the ${requiredScope} scope`);
+      if (requiredScope === GONG_PRIVACY_SCOPE) {
+        await privacyAuditLog.record({
+          action: 'denied',
+          tool: name,
+          clientId: auth.clientId,
+          subject: { emailAddress: args?.emailAddress, phoneNumber: args?.phoneNumber },
+          outcome: 'failure',
+          detail: `Missing ${requiredScope} scope`
+        });
+      }
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32001,
+          message: `Tool ${name} requires an OAuth access token with the ${requiredScope} scope`
+        }
+      };
+    }
+
+    if (!gongClient || !dataPrivacy || !callSync) {
+      throw new Error("Gong API credentials not configured");
+    }
+
+    if (!args) {
+      throw new Error("No arguments provided");
+    }
+
+    // Type guards
+    function isGongListCallsArgs(args: unknown): args is GongListCallsArgs {
+      return (
+        typeof args === "object" &&
+        args !== null &&
+        (!("fromDateTime" in args) || typeof (args as GongListCallsArgs).fromDateTime === "string") &&
+        (!("toDateTime" in args) || typeof (args as GongListCallsArgs).toDateTime === "string") &&
+        (!("cursor" in args) || typeof (args as GongListCallsArgs).cursor === "string") &&
+        (!("limit" in args) || typeof (args as GongListCallsArgs).limit === "number") &&
+        (!("fetchAll" in args) || typeof (args as GongListCallsArgs).fetchAll === "boolean") &&
+        (!("maxRecords" in args) || typeof (args as GongListCallsArgs).maxRecords === "number") &&
+        (!("workspaceId" in args) || typeof (args as GongListCallsArgs).workspaceId === "string") &&
+        (!("source" in args) || ["api", "local"].includes((args as GongListCallsArgs).source as string))
+      );
+    }
+
+    function isGongRetrieveTranscriptsArgs(args: unknown): args is GongRetrieveTranscriptsArgs {
+      return (
+        typeof args === "object" &&
+        args !== null &&
+        "callIds" in args &&
+        Array.isArray((args as GongRetrieveTranscriptsArgs).callIds) &&
+        (args as GongRetrieveTranscriptsArgs).callIds.every(id => typeof id === "string") &&
+        (!("cursor" in args) || typeof (args as GongRetrieveTranscriptsArgs).cursor === "string") &&
+        (!("limit" in args) || typeof (args as GongRetrieveTranscriptsArgs).limit === "number") &&
+        (!("fetchAll" in args) || typeof (args as GongRetrieveTranscriptsArgs).fetchAll === "boolean") &&
+        (!("maxRecords" in args) || typeof (args as GongRetrieveTranscriptsArgs).maxRecords === "number") &&
+        (!("resolveSpeakers" in args) || typeof (args as GongRetrieveTranscriptsArgs).resolveSpeakers === "boolean") &&
+        (!("workspaceId" in args) || typeof (args as GongRetrieveTranscriptsArgs).workspaceId === "string") &&
+        (!("fromSeconds" in args) || typeof (args as GongRetrieveTranscriptsArgs).fromSeconds === "number") &&
+        (!("toSeconds" in args) || typeof (args as GongRetrieveTranscriptsArgs).toSeconds === "number") &&
+        (!("topic" in args) || typeof (args as GongRetrieveTranscriptsArgs).topic === "string") &&
+        (!("source" in args) || ["api", "local"].includes((args as GongRetrieveTranscriptsArgs).source as string)) &&
+        (!("format" in args) || (TRANSCRIPT_FORMATS as readonly string[]).includes((args as GongRetrieveTranscriptsArgs).format as string)) &&
+        (!("maxChars" in args) || typeof (args as GongRetrieveTranscriptsArgs).maxChars === "number") &&
+        (!("maxTokens" in args) || typeof (args as GongRetrieveTranscriptsArgs).maxTokens === "number") &&
+        (!("continuationCursor" in args) || typeof (args as GongRetrieveTranscriptsArgs).continuationCursor === "string")
+      );
+    }
+
+    switch (name) {
+      case "list_calls": {
+        if (!isGongListCallsArgs(args)) {
+          throw new Error("Invalid arguments for list_calls");
+        }
+        let { fromDateTime, toDateTime, cursor, limit, fetchAll, maxRecords, workspaceId, source } = args;
+        
+        // Convert date strings to ISO format if needed
+        if (fromDateTime && !fromDateTime.includes('T')) {
+          fromDateTime = `${fromDateTime}T00:00:00Z`;
+          console.error('📅 Converted fromDateTime to ISO:', fromDateTime);
+        }
+        if (toDateTime && !toDateTime.includes('T')) {
+          toDateTime = `${toDateTime}T23:59:59Z`;
+          console.error('📅 Converted toDateTime to ISO:', toDateTime);
+        }
+        
+        let response;
+        if (source === "local") {
+          const calls = await callStore.listCalls({ fromDateTime, toDateTime, workspaceId });
+          const returned = maxRecords ? calls.slice(0, maxRecords) : calls;
+          response = { source, calls: returned, records: { totalRecords: calls.length, returnedRecords: returned.length } };
+        } else if (fetchAll || maxRecords) {
+          console.error('🔍 Walking every Gong page with params:', { fromDateTime, toDateTime, cursor, maxRecords });
+          const collected = await gongClient.listAllCalls(fromDateTime, toDateTime, maxRecords, cursor, workspaceId);
+          response = { calls: collected.items, records: toAutoPaginationInfo(collected, maxRecords) };
+        } else {
+          console.error('🔍 Calling Gong API with params:', { fromDateTime, toDateTime, cursor, limit });
+          response = await gongClient.listCalls(fromDateTime, toDateTime, cursor, limit, workspaceId);
+        }
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{ 
+              type: "text", 
+              text: JSON.stringify(response, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "retrieve_transcripts": {
+        if (!isGongRetrieveTranscriptsArgs(args)) {
+          throw new Error("Invalid arguments for retrieve_transcripts");
+        }
+        const {
+          callIds, cursor, limit, fetchAll, maxRecords, resolveSpeakers = true, workspaceId, fromSeconds, toSeconds, topic, source,
+          format = "json", maxChars, maxTokens, continuationCursor
+        } = args;
+        // Windowed or topic-filtered transcripts are excerpts, and each one gets a link to its moment in the recording
+        const isExcerpt = fromSeconds !== undefined || toSeconds !== undefined || topic !== undefined;
+        if (continuationCursor) {
+          const chunk = transcriptChunker.resume<GongCallTranscript | GongEnrichedCallTranscript>(continuationCursor, callIds);
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            result: {
+              content: transcriptContent({ ...chunk.response, callTranscripts: chunk.callTranscripts, continuation: chunk.continuation }, chunk.format),
+              isError: false
+            }
+          };
+        }
+
+        let response: TranscriptToolResponse;
+        if (source === "local") {
+          // Synced transcripts are stored with speakers already resolved
+          const stored = await Promise.all(callIds.map(callId => callStore.getTranscript(callId)));
+          const found = stored.filter((callTranscript): callTranscript is NonNullable<typeof callTranscript> => Boolean(callTranscript));
+          const missingCallIds = callIds.filter((_, index) => !stored[index]);
+          let excerpts = filterTranscriptTopic(sliceTranscriptWindow(found, fromSeconds, toSeconds), topic);
+          if (isExcerpt) {
+            const callUrls = new Map<string, string | undefined>();
+            for (const { callId } of excerpts) callUrls.set(callId, (await callStore.getCall(callId))?.url);
+            excerpts = linkTranscriptExcerpts(excerpts, callUrls);
+          }
+          response = { source, callTranscripts: excerpts, missingCallIds };
+        } else {
+          let callTranscripts: GongCallTranscript[];
+          let records: GongPaginationInfo | GongAutoPaginationInfo | undefined;
+          if (fetchAll || maxRecords) {
+            const collected = await gongClient.retrieveAllTranscripts(callIds, maxRecords, cursor, workspaceId);
+            callTranscripts = collected.items;
+            records = toAutoPaginationInfo(collected, maxRecords);
+          } else {
+            const page = await gongClient.retrieveTranscripts(callIds, cursor, limit, workspaceId);
+            callTranscripts = page.callTranscripts ?? [];
+            records = page.records;
+          }
+          callTranscripts = filterTranscriptTopic(sliceTranscriptWindow(callTranscripts, fromSeconds, toSeconds), topic);
+
+          // One call metadata lookup serves both speaker resolution and excerpt links
+          const calls = (resolveSpeakers || isExcerpt) && callTranscripts.length > 0
+            ? (await gongClient.getAllCallsExtensive({ callIds: callTranscripts.map(t => t.callId) }, ['parties'])).items
+            : [];
+          // Swap opaque speaker IDs for names, emails and internal/external affiliation
+          let output: Array<GongCallTranscript | GongEnrichedCallTranscript> = resolveSpeakers
+            ? enrichCallTranscripts(callTranscripts, await speakersFromCalls(calls, userDirectory))
+            : callTranscripts;
+          if (isExcerpt) {
+            output = linkTranscriptExcerpts(output, new Map(calls.map(call => [call.metaData.id, call.metaData.url])));
+          }
+          response = { workspaceId, callTranscripts: output, records };
+        }
+
+        const budgets = [maxChars, maxTokens === undefined ? undefined : maxTokens * CHARS_PER_TOKEN].filter((budget): budget is number => budget !== undefined);
+        if (budgets.length > 0) {
+          const { callTranscripts, ...rest } = response;
+          const chunk = transcriptChunker.split(callTranscripts, format, Math.min(...budgets), callIds, rest);
+          if (chunk.continuation.totalChunks > 1) {
+            response = { ...rest, callTranscripts: chunk.callTranscripts, continuation: chunk.continuation };
+          }
+        }
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: transcriptContent(response, format),
+            isError: false
+          }
+        };
+      }
+
+      case "get_call_details": {
+        if (!isGongGetCallDetailsArgs(args)) {
+          throw new Error("Invalid arguments for get_call_details");
+        }
+        const { callIds, include, workspaceId } = args;
+        const collected = await gongClient.getAllCallsExtensive({ callIds, workspaceId }, include);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ calls: collected.items, records: toAutoPaginationInfo(collected) }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "list_users": {
+        if (!isGongListUsersArgs(args)) {
+          throw new Error("Invalid arguments for list_users");
+        }
+        const { query, includeInactive } = args;
+        const needle = query?.toLowerCase();
+        const users = (await userDirectory!.list(includeInactive)).filter(user => !needle ||
+          [formatUserName(user), user.emailAddress, user.title].some(field => field?.toLowerCase().includes(needle)));
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ users, totalRecords: users.length }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_user": {
+        if (!isGongGetUserArgs(args)) {
+          throw new Error("Invalid arguments for get_user: provide userId or email");
+        }
+        const { userId, email } = args;
+        const user = userId ? await userDirectory!.getById(userId) : await userDirectory!.getByEmail(email!);
+        if (!user) {
+          throw new Error(`No Gong user found for ${userId ? `ID ${userId}` : `email ${email}`}`);
+        }
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ user }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_interaction_stats": {
+        if (!isGongStatsArgs(args)) {
+          throw new Error("Invalid arguments for get_interaction_stats");
+        }
+        const { filter, workspaceId } = await toStatsFilter(gongClient, args);
+        let people: GongPersonInteractionStats[] = [];
+        let records: GongPaginationInfo | GongAutoPaginationInfo | undefined;
+        if (filter.userIds?.length === 0) {
+          // Nobody hosted calls in the workspace; an empty userIds filter would mean "everyone" to Gong
+        } else if (args.fetchAll || args.maxRecords) {
+          const collected = await gongClient.getAllInteractionStats(filter, args.maxRecords, args.cursor);
+          people = collected.items;
+          records = toAutoPaginationInfo(collected, args.maxRecords);
+        } else {
+          const page = await gongClient.getInteractionStats(filter, args.cursor);
+          people = page.peopleInteractionStats ?? [];
+          records = page.records;
+        }
+
+        // Gong returns stats as a name/value list; key them by name so each rep is one readable row
+        const users = people.map(person => ({
+          userId: person.userId,
+          userEmailAddress: person.userEmailAddress,
+          workspaceId,
+          stats: Object.fromEntries(person.personInteractionStats.map(stat => [stat.name, stat.value]))
+        }));
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ fromDate: filter.fromDate, toDate: filter.toDate, workspaceId, users, records }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_activity_stats": {
+        if (!isGongStatsArgs(args)) {
+          throw new Error("Invalid arguments for get_activity_stats");
+        }
+        const { filter, workspaceId } = await toStatsFilter(gongClient, args);
+        let users: GongUserAggregateActivity[] = [];
+        let records: GongPaginationInfo | GongAutoPaginationInfo | undefined;
+        if (filter.userIds?.length === 0) {
+          // Nobody hosted calls in the workspace; an empty userIds filter would mean "everyone" to Gong
+        } else if (args.fetchAll || args.maxRecords) {
+          const collected = await gongClient.getAllActivityStats(filter, args.maxRecords, args.cursor);
+          users = collected.items;
+          records = toAutoPaginationInfo(collected, args.maxRecords);
+        } else {
+          const page = await gongClient.getActivityStats(filter, args.cursor);
+          users = page.usersAggregateActivityStats ?? [];
+          records = page.records;
+        }
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                fromDate: filter.fromDate,
+                toDate: filter.toDate,
+                workspaceId,
+                users: users.map(user => ({ ...user, workspaceId })),
+                records
+              }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "list_scorecards": {
+        if (!isGongListScorecardsArgs(args)) {
+          throw new Error("Invalid arguments for list_scorecards");
+        }
+        const { scorecards } = await gongClient.listScorecards(args.workspaceId);
+        const listed = (scorecards ?? []).filter(scorecard => args.includeDisabled || scorecard.enabled !== false);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ scorecards: listed }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_answered_scorecards": {
+        if (!isGongGetAnsweredScorecardsArgs(args)) {
+          throw new Error("Invalid arguments for get_answered_scorecards: provide fromDate/toDate or callIds");
+        }
+        const report = await buildAnsweredScorecardsReport(gongClient, userDirectory, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "list_library_folders": {
+        if (!isGongListLibraryFoldersArgs(args)) {
+          throw new Error("Invalid arguments for list_library_folders");
+        }
+        const workspaceId = args.workspaceId ?? gongClient.defaultWorkspaceId;
+        const { folders } = await gongClient.listLibraryFolders(workspaceId);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ workspaceId, folders: folders ?? [] }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_library_folder_calls": {
+        if (!isGongGetLibraryFolderCallsArgs(args)) {
+          throw new Error("Invalid arguments for get_library_folder_calls");
+        }
+        const folder = await gongClient.getLibraryFolderContent(args.folderId);
+        const calls = (folder.calls ?? []).map(call => ({
+          ...call,
+          isClip: Boolean(call.snippet),
+          // Pass these straight to retrieve_transcripts to read only the clip
+          transcriptRequest: {
+            callIds: [call.id],
+            ...(call.snippet ? { fromSeconds: call.snippet.fromSec, toSeconds: call.snippet.toSec } : {})
+          }
+        }));
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ folderId: folder.id, name: folder.name, calls }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "list_workspaces": {
+        const { workspaces } = await gongClient.listWorkspaces();
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ defaultWorkspaceId: gongClient.defaultWorkspaceId, workspaces: workspaces ?? [] }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "list_trackers": {
+        if (!isGongListTrackersArgs(args)) {
+          throw new Error("Invalid arguments for list_trackers");
+        }
+        const workspaceId = args.workspaceId ?? gongClient.defaultWorkspaceId;
+        const { keywordTrackers } = await gongClient.listTrackers(workspaceId);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ workspaceId, trackers: keywordTrackers ?? [] }, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_tracker_hits": {
+        if (!isGongGetTrackerHitsArgs(args)) {
+          throw new Error("Invalid arguments for get_tracker_hits: provide callIds or fromDateTime");
+        }
+        const report = await buildTrackerHitsReport(gongClient, userDirectory, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_audit_logs": {
+        if (!isGongGetAuditLogsArgs(args)) {
+          throw new Error("Invalid arguments for get_audit_logs: logType and fromDateTime are required");
+        }
+        const report = await buildAuditLogsReport(gongClient, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_privacy_data_for_email":
+      case "get_privacy_data_for_phone": {
+        const subjectField = name === "get_privacy_data_for_email" ? "emailAddress" : "phoneNumber";
+        if (!isGongPrivacySubjectArgs(args) || !(subjectField in args)) {
+          throw new Error(`Invalid arguments for ${name}: ${subjectField} is required`);
         }
-      }]
-    }
-  };
-}
+        const report = await dataPrivacy.lookup(name, args, auth.clientId);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-function handleInitialized(request: any) {
-  console.error('✅ Handling initialized notification - no response needed');
-  return null; // Notifications don't need responses
-}
+      case "erase_privacy_data": {
+        if (!isGongErasePrivacyDataArgs(args)) {
+          throw new Error("Invalid arguments for erase_privacy_data: provide exactly one of emailAddress or phoneNumber");
+        }
+        const { confirmationToken, ...subject } = args;
+        const outcome = confirmationToken
+          ? await dataPrivacy.confirmErasure(name, subject, confirmationToken, auth.clientId)
+          : await dataPrivacy.requestErasure(name, subject, auth.clientId);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(outcome, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-function handlePing(request: any) {
-  return {
-    jsonrpc: '2.0',
-    id: request.id,
-    result: {}
-  };
-}
+      case "create_meeting": {
+        if (!isGongMeetingArgs(args)) {
+          throw new Error("Invalid arguments for create_meeting: startTime, endTime, organizerEmail and invitees are required");
+        }
+        const meeting = await createMeeting(gongClient, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(meeting, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-async function handleToolCall(request: any) {
-  console.error('🛠️ Handling tool call:', request.params?.name);
-  try {
-    const { name, arguments: args } = request.params;
+      case "update_meeting": {
+        if (!isGongUpdateMeetingArgs(args)) {
+          throw new Error("Invalid arguments for update_meeting: meetingId, startTime, endTime, organizerEmail and invitees are required");
+        }
+        const meeting = await updateMeeting(gongClient, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(meeting, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-    if (!gongClient) {
-      throw new Error("Gong API credentials not configured");
-    }
+      case "register_call": {
+        if (!isGongRegisterCallArgs(args)) {
+          throw new Error("Invalid arguments for register_call: actualStart, direction, primaryUser and parties are required");
+        }
+        const call = await registerCall(gongClient, args, process.env.GONG_MEDIA_UPLOAD_DIR);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(call, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-    if (!args) {
-      throw new Error("No arguments provided");
-    }
+      case "sync_calls": {
+        if (!isGongSyncCallsArgs(args)) {
+          throw new Error("Invalid arguments for sync_calls");
+        }
+        const { wait, ...options } = args;
+        const summary = wait ? await callSync.run(options) : await callSync.start(options);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(summary, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-    // Type guards
-    function isGongListCallsArgs(args: unknown): args is GongListCallsArgs {
-      return (
-        typeof args === "object" &&
-        args !== null &&
-        (!("fromDateTime" in args) || typeof (args as GongListCallsArgs).fromDateTime === "string") &&
-        (!("toDateTime" in args) || typeof (args as GongListCallsArgs).toDateTime === "string") &&
-        (!("cursor" in args) || typeof (args as GongListCallsArgs).cursor === "string") &&
-        (!("limit" in args) || typeof (args as GongListCallsArgs).limit === "number")
-      );
-    }
+      case "get_sync_status": {
+        const status = await callSync.status();
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(status, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-    function isGongRetrieveTranscriptsArgs(args: unknown): args is GongRetrieveTranscriptsArgs {
-      return (
-        typeof args === "object" &&
-        args !== null &&
-        "callIds" in args &&
-        Array.isArray((args as GongRetrieveTranscriptsArgs).callIds) &&
-        (args as GongRetrieveTranscriptsArgs).callIds.every(id => typeof id === "string") &&
-        (!("cursor" in args) || typeof (args as GongRetrieveTranscriptsArgs).cursor === "string") &&
-        (!("limit" in args) || typeof (args as GongRetrieveTranscriptsArgs).limit === "number")
-      );
-    }
+      case "search_transcripts": {
+        if (!isGongSearchTranscriptsArgs(args)) {
+          throw new Error("Invalid arguments for search_transcripts: query is required");
+        }
+        const report = await searchTranscripts(callStore, gongClient, userDirectory, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
 
-    switch (name) {
-      case "list_calls": {
-        if (!isGongListCallsArgs(args)) {
-          throw new Error("Invalid arguments for list_calls");
+      case "call_analytics": {
+        if (!isGongCallAnalyticsArgs(args)) {
+          throw new Error("Invalid arguments for call_analytics: callIds is required");
         }
-        let { fromDateTime, toDateTime, cursor, limit } = args;
-        
-        // Convert date strings to ISO format if needed
-        if (fromDateTime && !fromDateTime.includes('T')) {
-          fromDateTime = `${fromDateTime}T00:00:00Z`;
-          console.error('📅 Converted fromDateTime to ISO:', fromDateTime);
+        const report = await buildCallAnalyticsReport(gongClient, userDirectory, callStore, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "rep_leaderboard": {
+        if (!isGongRepLeaderboardArgs(args)) {
+          throw new Error("Invalid arguments for rep_leaderboard: fromDateTime is required");
         }
-        if (toDateTime && !toDateTime.includes('T')) {
-          toDateTime = `${toDateTime}T23:59:59Z`;
-          console.error('📅 Converted toDateTime to ISO:', toDateTime);
+        // Week buckets are computed from these, and a local-store listing would not reject them first
+        for (const field of ["fromDateTime", "toDateTime"] as const) {
+          const value = args[field];
+          if (value !== undefined && Number.isNaN(Date.parse(value))) {
+            throw new Error(`Invalid arguments for rep_leaderboard: ${field} "${value}" is not an ISO 8601 date-time`);
+          }
         }
-        
-        console.error('🔍 Calling Gong API with params:', { fromDateTime, toDateTime, cursor, limit });
-        const response = await gongClient.listCalls(fromDateTime, toDateTime, cursor, limit);
+        const report = await buildRepLeaderboard(gongClient, userDirectory, callStore, args);
         return {
           jsonrpc: '2.0',
           id: request.id,
           result: {
-            content: [{ 
-              type: "text", 
-              text: JSON.stringify(response, null, 2)
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
             }],
             isError: false
           }
         };
       }
 
-      case "retrieve_transcripts": {
-        if (!isGongRetrieveTranscriptsArgs(args)) {
-          throw new Error("Invalid arguments for retrieve_transcripts");
+      case "extract_questions_and_objections": {
+        if (!isGongExtractQuestionsObjectionsArgs(args)) {
+          throw new Error("Invalid arguments for extract_questions_and_objections: callIds is required");
         }
-        const { callIds, cursor, limit } = args;
-        const response = await gongClient.retrieveTranscripts(callIds, cursor, limit);
+        const report = await buildQuestionsObjectionsReport(gongClient, userDirectory, callStore, objectionPatterns, args);
         return {
           jsonrpc: '2.0',
           id: request.id,
           result: {
-            content: [{ 
-              type: "text", 
-              text: JSON.stringify(response, null, 2)
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "extract_next_steps": {
+        if (!isGongExtractNextStepsArgs(args)) {
+          throw new Error("Invalid arguments for extract_next_steps: callIds is required");
+        }
+        const report = await buildNextStepsReport(gongClient, userDirectory, callStore, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "get_call_outline": {
+        if (!isGongGetCallOutlineArgs(args)) {
+          throw new Error("Invalid arguments for get_call_outline: callIds is required");
+        }
+        const report = await buildCallOutlineReport(gongClient, userDirectory, callStore, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }],
+            isError: false
+          }
+        };
+      }
+
+      case "find_quotes": {
+        if (!isGongFindQuotesArgs(args)) {
+          throw new Error("Invalid arguments for find_quotes: query is required");
+        }
+        const report = await findQuotes(callStore, gongClient, userDirectory, args);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
             }],
             isError: false
           }
@@ -528,9 +2458,14 @@ async function handleToolCall(request: any) {
   } catch (error) {
     console.error('💥 Tool call error:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorDetails = error instanceof Error && 'response' in error ? 
-      (error as any).response?.data : undefined;
-    
+    const errorDetails = error instanceof GongApiError ? {
+      type: error.name,
+      status: error.status,
+      requestId: error.requestId,
+      retryAfterMs: error instanceof GongRateLimitError ? error.retryAfterMs : undefined,
+      response: error.details
+    } : undefined;
+
     if (errorDetails) {
       console.error('💥 API Error details:', JSON.stringify(errorDetails, null, 2));
     }
@@ -541,7 +2476,8 @@ async function handleToolCall(request: any) {
       error: {
         code: -32603,
         message: `Error occurred while making the request: ${errorMessage}`,
-        data: errorDetails
+        // Remaining Gong budget helps tell a real failure from a key that is being drained elsewhere
+        data: { ...errorDetails, gongBudget: gongClient?.budgetStatus() }
       }
     };
   }
@@ -565,6 +2501,17 @@ function createMCPHandlers() {
   return handlers;
 }
 
+// Client and scopes of the bearer token on a request, from the Authorization header or an access_token query parameter
+function toolCallAuthFor(req: http.IncomingMessage): ToolCallAuth {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : new URL(req.url || '/', 'http://localhost').searchParams.get('access_token');
+  const tokenData = token?.startsWith('access_') ? oauthTokens.get(token) : undefined;
+  if (!tokenData || tokenData.expires_at < Date.now()) return { scopes: new Set() };
+  return { clientId: tokenData.client_id, scopes: new Set(String(tokenData.scope).split(' ')) };
+}
+
 // WebSocket MCP Handler
 function handleWebSocketConnection(ws: WebSocket, req: http.IncomingMessage) {
   console.error('🔌 WebSocket connection established');
@@ -611,7 +2558,9 @@ function handleWebSocketConnection(ws: WebSocket, req: http.IncomingMessage) {
         if (request.method === 'initialize') {
           session.initialized = true;
         }
-        response = await handler(request);
+        response = request.method === 'tools/call'
+          ? await handleToolCall(request, toolCallAuthFor(req))
+          : await handler(request);
 
         // Skip response for notifications
         if (response === null) {
@@ -733,6 +2682,10 @@ async function createHTTPMCPServer() {
           }
         },
         tools: [
+          {
+            name: 'list_workspaces',
+            description: 'List Gong workspaces'
+          },
           {
             name: 'list_calls',
             description: 'List Gong calls with filtering'
@@ -740,6 +2693,114 @@ async function createHTTPMCPServer() {
           {
             name: 'retrieve_transcripts',
             description: 'Get call transcripts'
+          },
+          {
+            name: 'get_call_details',
+            description: 'Get call participants, topics, trackers and highlights'
+          },
+          {
+            name: 'list_users',
+            description: 'List Gong users'
+          },
+          {
+            name: 'get_user',
+            description: 'Get a Gong user by ID or email'
+          },
+          {
+            name: 'get_interaction_stats',
+            description: 'Get per-rep talk ratio, monologue, interactivity and patience stats'
+          },
+          {
+            name: 'get_activity_stats',
+            description: 'Get per-user aggregated activity stats'
+          },
+          {
+            name: 'list_scorecards',
+            description: 'List scorecard definitions'
+          },
+          {
+            name: 'get_answered_scorecards',
+            description: 'Get answered scorecards with call titles and reviewer names'
+          },
+          {
+            name: 'list_library_folders',
+            description: 'List Gong library folders'
+          },
+          {
+            name: 'get_library_folder_calls',
+            description: 'List calls and clips in a library folder'
+          },
+          {
+            name: 'list_trackers',
+            description: 'List keyword tracker definitions'
+          },
+          {
+            name: 'get_tracker_hits',
+            description: 'Get per-call tracker hits with timestamps and sentences'
+          },
+          {
+            name: 'get_audit_logs',
+            description: 'Get Gong audit log events (requires gong:admin scope)'
+          },
+          {
+            name: 'get_privacy_data_for_email',
+            description: 'Find Gong data referencing an email address (requires gong:privacy scope)'
+          },
+          {
+            name: 'get_privacy_data_for_phone',
+            description: 'Find Gong data referencing a phone number (requires gong:privacy scope)'
+          },
+          {
+            name: 'erase_privacy_data',
+            description: 'Erase Gong data for an email or phone number after confirmation (requires gong:privacy scope)'
+          },
+          {
+            name: 'create_meeting',
+            description: 'Create a Gong meeting (requires gong:write scope)'
+          },
+          {
+            name: 'update_meeting',
+            description: 'Update a Gong meeting (requires gong:write scope)'
+          },
+          {
+            name: 'register_call',
+            description: 'Register an uploaded call recording (requires gong:write scope)'
+          },
+          {
+            name: 'sync_calls',
+            description: 'Sync calls and transcripts into the local store (incremental or backfill)'
+          },
+          {
+            name: 'get_sync_status',
+            description: 'Report local call store sync progress and contents'
+          },
+          {
+            name: 'search_transcripts',
+            description: 'BM25-ranked phrase/boolean search over synced transcripts'
+          },
+          {
+            name: 'call_analytics',
+            description: 'Talk ratio, monologues, questions, switches and silence computed from transcripts'
+          },
+          {
+            name: 'rep_leaderboard',
+            description: 'Per-rep call volume, duration, talk ratio and question rate with week-over-week deltas'
+          },
+          {
+            name: 'extract_questions_and_objections',
+            description: 'Rule-based customer questions and price/timing/competitor/security/authority objections'
+          },
+          {
+            name: 'extract_next_steps',
+            description: 'Commitments with owner side, resolved due date, quote and timestamp'
+          },
+          {
+            name: 'get_call_outline',
+            description: 'Topic sections with times, main speakers and excerpts for navigating long calls'
+          },
+          {
+            name: 'find_quotes',
+            description: 'Verbatim external-speaker quotes with company, call title and deep links'
           }
         ]
       }));
@@ -753,7 +2814,8 @@ async function createHTTPMCPServer() {
         status: 'healthy', 
         timestamp: new Date().toISOString(),
         type: 'mcp-server',
-        capabilities: ['oauth', 'mcp']
+        capabilities: ['oauth', 'mcp'],
+        gongBudget: gongClient?.budgetStatus()
       }));
       return;
     }
@@ -769,7 +2831,7 @@ async function createHTTPMCPServer() {
         response_types_supported: ['code'],
         grant_types_supported: ['authorization_code'],
         token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
-        scopes_supported: ['gong:read'],
+        scopes_supported: SUPPORTED_SCOPES,
         code_challenge_methods_supported: ['S256'],
         // MCP-specific extensions
         mcp_endpoint: `${PROTOCOL}/sse`,
@@ -790,7 +2852,7 @@ async function createHTTPMCPServer() {
       res.end(JSON.stringify({
         resource_server: PROTOCOL,
         authorization_servers: [PROTOCOL],
-        scopes_supported: ['gong:read'],
+        scopes_supported: SUPPORTED_SCOPES,
         bearer_methods_supported: ['header', 'query'],
         // MCP-specific extensions  
         mcp_endpoint: `${PROTOCOL}/sse`,
@@ -1051,6 +3113,15 @@ async function createHTTPMCPServer() {
     }));
   });
 
+  // GONG_SYNC_INTERVAL_MINUTES keeps the local call store current without anyone calling sync_calls
+  const syncIntervalMinutes = Number(process.env.GONG_SYNC_INTERVAL_MINUTES);
+  if (callSync && syncIntervalMinutes > 0) {
+    setInterval(() => {
+      callSync.start().catch(error => console.error('💥 Scheduled call sync failed to start:', error));
+    }, syncIntervalMinutes * 60 * 1000);
+    console.error(`🔄 Syncing calls to the local store every ${syncIntervalMinutes} minutes`);
+  }
+
   // Clean up expired sessions
   setInterval(() => {
     const now = new Date();
@@ -1153,7 +3224,9 @@ async function handleMCPRequest(req: http.IncomingMessage, res: http.ServerRespo
             if (request.method === 'initialize') {
               session.initialized = true;
             }
-            response = await handler(request);
+            response = request.method === 'tools/call'
+              ? await handleToolCall(request, toolCallAuthFor(req))
+              : await handler(request);
             
             // Skip response for notifications
             if (response === null) {
@@ -1294,6 +3367,9 @@ async function handleOAuthAuthorization(req: http.IncomingMessage, res: http.Ser
   const clientId = params.get('client_id');
   const redirectUri = params.get('redirect_uri');
   const state = params.get('state');
+  // Only recorded here; the token endpoint decides what is granted once the client has authenticated
+  const requestedScopes = (params.get('scope') || GONG_READ_SCOPE).split(' ').filter(scope => SUPPORTED_SCOPES.includes(scope));
+  const scope = [...new Set([GONG_READ_SCOPE, ...requestedScopes])].join(' ');
   
   if (!clientId) {
     console.error('No client ID provided');
@@ -1320,7 +3396,7 @@ async function handleOAuthAuthorization(req: http.IncomingMessage, res: http.Ser
   oauthTokens.set(authCode, {
     client_id: clientId,
     redirect_uri: redirectUri,
-    scope: 'gong:read',
+    scope,
     expires_at: Date.now() + 600000 // 10 minutes
   });
   
@@ -1342,8 +3418,7 @@ async function handleOAuthToken(req: http.IncomingMessage, res: http.ServerRespo
       const params = new URLSearchParams(body);
       const grantType = params.get('grant_type');
       const code = params.get('code');
-      const clientId = params.get('client_id');
-      const clientSecret = params.get('client_secret');
+      const { clientId, clientSecret } = clientCredentials(req, params);
       
       if (grantType !== 'authorization_code' || !code || !oauthTokens.has(code)) {
         console.error('Invalid grant or code');
@@ -1360,6 +3435,14 @@ async function handleOAuthToken(req: http.IncomingMessage, res: http.ServerRespo
         res.end(JSON.stringify({ error: 'invalid_grant' }));
         return;
       }
+
+      // A code is only good for the client it was issued to
+      if (tokenData.client_id !== clientId) {
+        console.error('Authorization code was issued to a different client');
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'invalid_grant' }));
+        return;
+      }
       
       // Auto-register unknown clients if needed
       if (!oauthClients.has(clientId)) {
@@ -1385,9 +3468,10 @@ async function handleOAuthToken(req: http.IncomingMessage, res: http.ServerRespo
       
       // Generate access token
       const accessToken = `access_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const scope = grantedScopes(tokenData.scope, clientId, clientSecret);
       oauthTokens.set(accessToken, {
         client_id: clientId,
-        scope: tokenData.scope,
+        scope,
         expires_at: Date.now() + 3600000 // 1 hour
       });
       
@@ -1399,7 +3483,7 @@ async function handleOAuthToken(req: http.IncomingMessage, res: http.ServerRespo
         access_token: accessToken,
         token_type: 'Bearer',
         expires_in: 3600,
-        scope: tokenData.scope
+        scope
       }));
       console.error('Access token issued:', accessToken);
     } catch (error) {
@@ -1486,7 +3570,7 @@ async function handleSSEConnection(req: http.IncomingMessage, res: http.ServerRe
     jsonrpc: '2.0',
     method: 'notifications/tools/list_changed',
     params: {
-      tools: [LIST_CALLS_TOOL, RETRIEVE_TRANSCRIPTS_TOOL]
+      tools: GONG_TOOLS
     }
   })}\n\n`);
 
@@ -2,9 +2,8 @@
 
 import http from 'http';
 import { URL } from 'url';
-import axios from 'axios';
-import crypto from 'crypto';
 import dotenv from 'dotenv';
+import { GongClient, gongClientOptionsFromEnv } from './gong-client.js';
 
 dotenv.config();
 
@@ -18,7 +17,6 @@ console.log(`Node version: ${process.version}`);
 console.log(`Base URL: ${BASE_URL}`);
 
 // Gong API configuration
-const GONG_API_URL = 'https://api.gong.io/v2';
 const GONG_ACCESS_KEY = process.env.GONG_ACCESS_KEY;
 const GONG_ACCESS_SECRET = process.env.GONG_ACCESS_SECRET;
 
@@ -26,74 +24,10 @@ const GONG_ACCESS_SECRET = process.env.GONG_ACCESS_SECRET;
 const clients = new Map();
 const tokens = new Map();
 
-// Gong API Client
-class GongClient {
-  private accessKey: string;
-  private accessSecret: string;
-
-  constructor(accessKey: string, accessSecret: string) {
-    this.accessKey = accessKey;
-    this.accessSecret = accessSecret;
-  }
-
-  private generateSignature(method: string, path: string, timestamp: string, params?: unknown): string {
-    const stringToSign = `${method}\n${path}\n${timestamp}\n${params ? JSON.stringify(params) : ''}`;
-    const signature = crypto.createHmac('sha256', this.accessSecret).update(stringToSign).digest('base64');
-    return signature;
-  }
-
-  private async request<T>(method: string, path: string, params?: Record<string, string | number | undefined>, data?: Record<string, unknown>): Promise<T> {
-    const timestamp = new Date().toISOString();
-    const url = `${GONG_API_URL}${path}`;
-    
-    const response = await axios({
-      method,
-      url,
-      params,
-      data,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${Buffer.from(`${this.accessKey}:${this.accessSecret}`).toString('base64')}`,
-        'X-Gong-AccessKey': this.accessKey,
-        'X-Gong-Timestamp': timestamp,
-        'X-Gong-Signature': this.generateSignature(method, path, timestamp, data || params)
-      }
-    });
-
-    return response.data as T;
-  }
-
-  async listCalls(fromDateTime?: string, toDateTime?: string, cursor?: string, limit?: number): Promise<any> {
-    const params: any = {};
-    if (fromDateTime) params.fromDateTime = fromDateTime;
-    if (toDateTime) params.toDateTime = toDateTime;
-    if (cursor) params.cursor = cursor;
-    if (limit) params.limit = limit;
-
-    return this.request<any>('GET', '/calls', params);
-  }
-
-  async retrieveTranscripts(callIds: string[], cursor?: string, limit?: number): Promise<any> {
-    const requestData: any = {
-      filter: {
-        callIds,
-        includeEntities: true,
-        includeInteractionsSummary: true,
-        includeTrackers: true
-      }
-    };
-
-    if (cursor) requestData.cursor = cursor;
-    if (limit) requestData.limit = limit;
-
-    return this.request<any>('POST', '/calls/transcript', undefined, requestData);
-  }
-}
-
 // Initialize Gong client if credentials are available
 let gongClient: GongClient | null = null;
 if (GONG_ACCESS_KEY && GONG_ACCESS_SECRET) {
-  gongClient = new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET);
+  gongClient = new GongClient(GONG_ACCESS_KEY, GONG_ACCESS_SECRET, gongClientOptionsFromEnv('minimal'));
   console.log('✅ Gong client initialized');
 } else {
   console.log('⚠️  Gong credentials not found, API functionality will be limited');
@@ -124,7 +58,8 @@ const server = http.createServer((req: any, res: any) => {
       status: 'healthy', 
       timestamp: new Date().toISOString(),
       port: PORT,
-      uptime: process.uptime()
+      uptime: process.uptime(),
+      gongBudget: gongClient?.budgetStatus()
     }));
     return;
   }
@@ -0,0 +1,259 @@
+import { LocalCallStore } from './call-store.js';
+import { loadCallTranscripts } from './call-transcripts.js';
+import { GongClient } from './gong-client.js';
+import { GongEnrichedCallTranscript, GongExtractNextStepsArgs, GongSpeaker } from './gong-types.js';
+import { formatOffset } from './time-format.js';
+import { gongCallLinkAt } from './transcript-window.js';
+import { GongUserDirectory } from './user-directory.js';
+
+export type NextStepOwner = 'rep' | 'customer' | 'unknown';
+
+export interface NextStep {
+  owner: NextStepOwner;
+  speakerId: string;
+  speakerName?: string;
+  affiliation: GongSpeaker['affiliation'];
+  // What was committed to, from the verb onwards
+  action: string;
+  // YYYY-MM-DD, resolved against the call's start date; absent when no date was mentioned or the call has no start
+  dueDate?: string;
+  // The date phrase as spoken, e.g. "next Tuesday"
+  dueText?: string;
+  quote: string;
+  startSeconds: number;
+  timestamp: string;
+  url?: string;
+}
+
+export interface CallNextSteps {
+  callId: string;
+  title?: string;
+  started?: string;
+  url?: string;
+  nextSteps: NextStep[];
+}
+
+export interface NextStepsReport {
+  calls: CallNextSteps[];
+  missingCallIds: string[];
+}
+
+interface CommitmentPattern {
+  pattern: RegExp;
+  // speaker: the person talking takes the action ("I'll send"). listener: they ask the other side ("can you send")
+  owner: 'speaker' | 'listener';
+  // Verbs that follow the pattern without being a commitment ("I'll be honest", "let's see")
+  ignoreVerbs?: Set<string>;
+  // When set, only these verbs count
+  onlyVerbs?: Set<string>;
+}
+
+const FILLER_VERBS = ['be', 'see', 'say', 'admit', 'guess', 'bet', 'think', 'not', 'never'];
+
+// The last capture group is the verb the action starts at
+const COMMITMENT_PATTERNS: CommitmentPattern[] = [
+  {
+    pattern: /\b(?:I|we)(?:'ll|'m going to|'re going to|\s+(?:will|shall|am going to|are going to|can|need to|have to|plan to))\s+(?:also\s+|just\s+|then\s+|probably\s+|definitely\s+|go ahead and\s+)?([a-z]+)/i,
+    owner: 'speaker',
+    ignoreVerbs: new Set(FILLER_VERBS)
+  },
+  {
+    pattern: /\blet's\s+(?:go ahead and\s+|plan to\s+)?([a-z]+)/i,
+    owner: 'speaker',
+    ignoreVerbs: new Set([...FILLER_VERBS, 'talk', 'dive', 'start', 'jump', 'move', 'look', 'go', 'begin', 'continue', 'get', 'do'])
+  },
+  {
+    pattern: /\b(?:can|could|would|will) you\s+(?:please\s+|also\s+|just\s+)?([a-z]+)/i,
+    owner: 'listener',
+    onlyVerbs: new Set(['send', 'share', 'forward', 'loop', 'introduce', 'set', 'schedule', 'book', 'review', 'sign', 'confirm', 'provide', 'email', 'connect', 'follow', 'circle', 'check'])
+  }
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, 'a couple of': 2, three: 3, 'a few': 3,
+  four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+// May has rules of its own below
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+// Dates are UTC midnights standing for calendar days in the call's own time zone
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Monday-based: 0 for Monday through 6 for Sunday
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function endOfMonth(year: number, month: number): Date {
+  return new Date(Date.UTC(year, month + 1, 0));
+}
+
+// The first occurrence on or after the call day; a day the month doesn't have in that year (Feb 30, or Feb 29
+// outside a leap year) is skipped rather than rolled into the next month
+function monthDay(base: Date, monthName: string, day: number): Date | undefined {
+  const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+  if (day < 1 || day > 31) return undefined;
+  for (const year of [base.getUTCFullYear(), base.getUTCFullYear() + 1]) {
+    const date = new Date(Date.UTC(year, month, day));
+    if (date.getUTCMonth() === month && date >= base) return date;
+  }
+  return undefined;
+}
+
+function inPeriods(base: Date, count: number, unit: string): Date {
+  if (unit.startsWith('day')) return addDays(base, count);
+  if (unit.startsWith('week')) return addDays(base, count * 7);
+  return new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + count, base.getUTCDate()));
+}
+
+// Phrase -> due date from the call day. Week-level phrases resolve to a Friday (deadline) or a Monday (start).
+const DUE_DATE_RULES: Array<{ pattern: RegExp; resolve: (base: Date, match: RegExpExecArray) => Date | undefined }> = [
+  { pattern: /\b(?:today|tonight|later today|end of (?:the )?day|EOD)\b/i, resolve: base => base },
+  { pattern: /\b(?:the )?day after tomorrow\b/i, resolve: base => addDays(base, 2) },
+  { pattern: /\btomorrow\b/i, resolve: base => addDays(base, 1) },
+  { pattern: /\bend of next week\b/i, resolve: base => addDays(base, 7 - weekdayIndex(base) + 4) },
+  { pattern: /\b(?:end of (?:the |this )?week|this week|EOW)\b/i, resolve: base => addDays(base, (4 - weekdayIndex(base) + 7) % 7) },
+  { pattern: /\bnext week\b/i, resolve: base => addDays(base, 7 - weekdayIndex(base)) },
+  { pattern: /\bend of next month\b/i, resolve: base => endOfMonth(base.getUTCFullYear(), base.getUTCMonth() + 1) },
+  { pattern: /\b(?:end of (?:the |this )?month|EOM)\b/i, resolve: base => endOfMonth(base.getUTCFullYear(), base.getUTCMonth()) },
+  { pattern: /\bnext month\b/i, resolve: base => new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + 1, 1)) },
+  {
+    pattern: /\b(?:end of (?:the |this )?quarter|EOQ)\b/i,
+    resolve: base => endOfMonth(base.getUTCFullYear(), Math.floor(base.getUTCMonth() / 3) * 3 + 2)
+  },
+  {
+    pattern: /\bnext quarter\b/i,
+    resolve: base => new Date(Date.UTC(base.getUTCFullYear(), Math.floor(base.getUTCMonth() / 3) * 3 + 3, 1))
+  },
+  {
+    pattern: /\b(?:in|within)\s+(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|a couple of|a few)\s+(days?|weeks?|months?)\b/i,
+    resolve: (base, match) => inPeriods(base, Number(match[1]) || NUMBER_WORDS[match[1].toLowerCase()], match[2].toLowerCase())
+  },
+  {
+    // "next Tuesday" is the Tuesday of next week; a bare or "this" weekday is its next occurrence after the call
+    pattern: /\b(?:(next|this|on|by)\s+)?(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i,
+    resolve: (base, match) => {
+      const target = WEEKDAYS.indexOf(match[2].toLowerCase());
+      if (match[1]?.toLowerCase() === 'next') return addDays(base, 7 - weekdayIndex(base) + (target + 6) % 7);
+      return addDays(base, (target - base.getUTCDay() + 7) % 7 || 7);
+    }
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'i'),
+    resolve: (base, match) => monthDay(base, match[1], Number(match[2]))
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b`, 'i'),
+    resolve: (base, match) => monthDay(base, match[2], Number(match[1]))
+  },
+  // Case-sensitive, since "may" is usually the verb ("we may 2 things", "these 2 may work"): the month needs its
+  // capital M, or a date preposition or "of" in front of it
+  {
+    pattern: /\b(?:May|(?<=\b(?:on|by|before|until|On|By|Before|Until)\s+)may)\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b/,
+    resolve: (base, match) => monthDay(base, 'may', Number(match[1]))
+  },
+  {
+    pattern: /\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+may|(?:of\s+)?May)\b/,
+    resolve: (base, match) => monthDay(base, 'may', Number(match[1]))
+  }
+];
+
+// The call day as written in Gong's started timestamp, which carries the call's own UTC offset
+function callDay(started?: string): Date | undefined {
+  const match = started?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : undefined;
+}
+
+// The earliest date phrase in the sentence; on a tie the longer phrase wins ("end of next week" over "next week")
+export function resolveDueDate(text: string, started?: string): { dueText: string; dueDate?: string } | undefined {
+  let best: { match: RegExpExecArray; rule: typeof DUE_DATE_RULES[number] } | undefined;
+  for (const rule of DUE_DATE_RULES) {
+    const match = rule.pattern.exec(text);
+    if (!match) continue;
+    if (!best || match.index < best.match.index || (match.index === best.match.index && match[0].length > best.match[0].length)) {
+      best = { match, rule };
+    }
+  }
+  if (!best) return undefined;
+
+  const base = callDay(started);
+  const due = base ? best.rule.resolve(base, best.match) : undefined;
+  return {
+    dueText: best.match[0],
+    dueDate: due && !isNaN(due.getTime()) ? due.toISOString().slice(0, 10) : undefined
+  };
+}
+
+function ownerFor(affiliation: GongSpeaker['affiliation'], relation: 'speaker' | 'listener'): NextStepOwner {
+  if (affiliation === 'unknown') return 'unknown';
+  const speakerIsRep = affiliation === 'internal';
+  return (relation === 'speaker') === speakerIsRep ? 'rep' : 'customer';
+}
+
+function findCommitment(text: string): { action: string; owner: 'speaker' | 'listener' } | undefined {
+  for (const { pattern, owner, ignoreVerbs, onlyVerbs } of COMMITMENT_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+    const verb = match[match.length - 1].toLowerCase();
+    if (ignoreVerbs?.has(verb) || (onlyVerbs && !onlyVerbs.has(verb))) continue;
+    const actionStart = match.index + match[0].length - verb.length;
+    return { action: text.slice(actionStart).replace(/[.!?,;\s]+$/, ''), owner };
+  }
+  return undefined;
+}
+
+// One action item per sentence that carries commitment language, in time order
+export function extractNextSteps(callTranscript: GongEnrichedCallTranscript, started?: string, callUrl?: string): NextStep[] {
+  const speakers = new Map(callTranscript.speakers.map(speaker => [speaker.speakerId, speaker]));
+  const nextSteps: NextStep[] = [];
+  const sentences = callTranscript.transcript
+    .flatMap(monologue => monologue.sentences.map(sentence => ({ speakerId: monologue.speakerId, start: sentence.start, text: sentence.text.trim() })))
+    .sort((a, b) => a.start - b.start);
+
+  for (const sentence of sentences) {
+    // Transcripts may use typographic apostrophes
+    const commitment = findCommitment(sentence.text.replace(/[‘’]/g, "'"));
+    if (!commitment) continue;
+    const speaker = speakers.get(sentence.speakerId);
+    const affiliation = speaker?.affiliation ?? 'unknown';
+    const seconds = sentence.start / 1000;
+    nextSteps.push({
+      owner: ownerFor(affiliation, commitment.owner),
+      speakerId: sentence.speakerId,
+      speakerName: speaker?.name,
+      affiliation,
+      action: commitment.action,
+      ...resolveDueDate(sentence.text, started),
+      quote: sentence.text,
+      startSeconds: Math.floor(seconds),
+      timestamp: formatOffset(seconds),
+      url: callUrl ? gongCallLinkAt(callUrl, seconds) : undefined
+    });
+  }
+  return nextSteps;
+}
+
+export async function buildNextStepsReport(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  store: LocalCallStore,
+  args: GongExtractNextStepsArgs
+): Promise<NextStepsReport> {
+  const { calls, missingCallIds } = await loadCallTranscripts(client, directory, store, args.callIds, args.source);
+  return {
+    calls: calls.map(({ call, callTranscript }) => ({
+      callId: callTranscript.callId,
+      title: call.title || undefined,
+      started: call.started,
+      url: call.url,
+      nextSteps: extractNextSteps(callTranscript, call.started, call.url).filter(step => !args.owner || step.owner === args.owner)
+    })),
+    missingCallIds
+  };
+}
@@ -0,0 +1,270 @@
+import { randomUUID } from 'crypto';
+import { readFile, rename, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { GongDailyBudgetError } from './gong-errors.js';
+
+// Gong's documented limits for one API key
+export const GONG_REQUESTS_PER_SECOND = 3;
+export const GONG_DAILY_REQUEST_BUDGET = 10000;
+
+// Shared by every server process on the machine, since they all spend the same key's budget
+export const DEFAULT_BUDGET_FILE = path.join(os.tmpdir(), 'gong-api-budget.json');
+
+// Batches budget writes and re-reads; the own counter is still exact in memory between flushes
+const BUDGET_FLUSH_DELAY_MS = 1000;
+// A process that made a request this recently takes a share of the per-second rate
+const ACTIVE_PROCESS_WINDOW_MS = 10_000;
+
+let budgetWrites = 0;
+
+export interface BudgetSourceUsage {
+  requests: number;
+  byEndpoint: Record<string, number>;
+}
+
+export interface DailyBudgetStatus {
+  date: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+  // Who spent the budget today, keyed by GongClientOptions.source and summed over that source's processes
+  bySource: Record<string, BudgetSourceUsage>;
+  // Processes, this one included, splitting the per-second rate right now
+  activeProcesses: number;
+}
+
+interface ProcessUsage extends BudgetSourceUsage {
+  source: string;
+  lastRequestAt: number;
+}
+
+// Entries are keyed per process, so two processes with the same source never overwrite each other's count
+interface BudgetFile {
+  date: string;
+  processes: Record<string, ProcessUsage>;
+}
+
+function isPositiveNumber(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
+
+function utcDate(time: number = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+}
+
+// Collapses numeric IDs so /users/123 and /users/456 are counted together
+function toEndpoint(method: string, requestPath: string): string {
+  return `${method} ${requestPath.replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+}
+
+// Paces requests to a steady rate; callers queue in FIFO order instead of failing
+export class TokenBucket {
+  private fullRate: number;
+  private fullCapacity: number;
+  private ratePerSecond: number;
+  private capacity: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private waiting: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  // Capacity is at least one token, so a rate below one request per second still lets requests through
+  constructor(ratePerSecond: number = GONG_REQUESTS_PER_SECOND, capacity: number = Math.max(1, ratePerSecond)) {
+    if (!isPositiveNumber(ratePerSecond) || !isPositiveNumber(capacity) || capacity < 1) {
+      throw new Error(`Invalid rate limit: ${ratePerSecond} requests/second with capacity ${capacity}`);
+    }
+    this.fullRate = ratePerSecond;
+    this.fullCapacity = capacity;
+    this.ratePerSecond = ratePerSecond;
+    this.capacity = capacity;
+    this.tokens = capacity;
+  }
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  // Splits the configured rate evenly with other processes spending the same key
+  share(processes: number): void {
+    const count = Math.max(1, Math.floor(processes));
+    if (this.fullRate / count === this.ratePerSecond) return;
+    this.refill();
+    this.ratePerSecond = this.fullRate / count;
+    this.capacity = Math.max(1, this.fullCapacity / count);
+    this.tokens = Math.min(this.tokens, this.capacity);
+  }
+
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push(resolve);
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.waiting.length > 0 && this.tokens >= 1) {
+      this.tokens--;
+      this.waiting.shift()!();
+    }
+    if (this.waiting.length > 0 && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+// Per-day request counter persisted to a JSON file. Each process writes only its own entry and re-reads
+// the others from disk, so the total covers every process sharing the file.
+export class DailyBudget {
+  private limit: number;
+  private filePath: string;
+  private source: string;
+  // pid alone can be reused by a later process on the same day, or shared by two clients in one process
+  private processKey = `${process.pid}-${randomUUID().slice(0, 8)}`;
+  private date = utcDate();
+  private own: ProcessUsage;
+  private others: Record<string, ProcessUsage> = {};
+  private lastReadAt = 0;
+  private reading?: Promise<void>;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(limit: number = GONG_DAILY_REQUEST_BUDGET, filePath: string = DEFAULT_BUDGET_FILE, source: string = 'default') {
+    if (!isPositiveNumber(limit)) {
+      throw new Error(`Invalid daily request budget: ${limit}`);
+    }
+    this.limit = limit;
+    this.filePath = filePath;
+    this.source = source;
+    this.own = { source, requests: 0, byEndpoint: {}, lastRequestAt: 0 };
+  }
+
+  // Today's entries of every other process
+  private async readFromDisk(): Promise<Record<string, ProcessUsage>> {
+    try {
+      const stored = JSON.parse(await readFile(this.filePath, 'utf8')) as Partial<BudgetFile>;
+      if (stored.date !== utcDate() || !stored.processes) return {};
+      const { [this.processKey]: _own, ...others } = stored.processes;
+      return others;
+    } catch {
+      // Missing file, or one from an older version: nobody else has spent anything today
+      return {};
+    }
+  }
+
+  // Picks up other processes' requests at most once per flush interval
+  private async refresh(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastReadAt < BUDGET_FLUSH_DELAY_MS) return;
+    if (!this.reading) {
+      this.reading = this.readFromDisk()
+        .then(others => {
+          this.others = others;
+          this.lastReadAt = Date.now();
+        })
+        .finally(() => {
+          this.reading = undefined;
+        });
+    }
+    await this.reading;
+  }
+
+  private rollOver(): void {
+    const today = utcDate();
+    if (this.date === today) return;
+    this.date = today;
+    this.own = { source: this.source, requests: 0, byEndpoint: {}, lastRequestAt: 0 };
+    this.others = {};
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch(error => console.error('⚠️ Failed to persist Gong request budget:', error));
+    }, BUDGET_FLUSH_DELAY_MS);
+    // Pending counts must not keep a finished process alive
+    this.flushTimer.unref();
+  }
+
+  async flush(): Promise<void> {
+    this.rollOver();
+    await this.refresh(true);
+    const state: BudgetFile = { date: this.date, processes: { ...this.others, [this.processKey]: this.own } };
+    // Written aside and renamed into place, so a concurrent reader never sees a half-written file
+    const temp = `${this.filePath}.${process.pid}.${++budgetWrites}.tmp`;
+    await writeFile(temp, JSON.stringify(state, null, 2));
+    await rename(temp, this.filePath);
+  }
+
+  private used(): number {
+    return Object.values(this.others).reduce((total, usage) => total + usage.requests, this.own.requests);
+  }
+
+  // Processes that made a request within ACTIVE_PROCESS_WINDOW_MS, counting this one
+  activeProcesses(): number {
+    const since = Date.now() - ACTIVE_PROCESS_WINDOW_MS;
+    return 1 + Object.values(this.others).filter(usage => usage.lastRequestAt >= since).length;
+  }
+
+  // Counts one request against today's budget, or throws once the budget is spent
+  async consume(method: string, requestPath: string): Promise<void> {
+    this.rollOver();
+    await this.refresh();
+    if (this.used() >= this.limit) {
+      const resetsAt = nextUtcMidnight();
+      throw new GongDailyBudgetError(
+        `Gong daily request budget of ${this.limit} is used up; it resets at ${new Date(resetsAt).toISOString()}`,
+        { method, path: requestPath, retryAfterMs: resetsAt - Date.now() }
+      );
+    }
+
+    const endpoint = toEndpoint(method, requestPath);
+    this.own.requests++;
+    this.own.byEndpoint[endpoint] = (this.own.byEndpoint[endpoint] ?? 0) + 1;
+    this.own.lastRequestAt = Date.now();
+    this.scheduleFlush();
+  }
+
+  // Reflects other processes as of the last re-read, at most a flush interval behind plus their own flush delay
+  status(): DailyBudgetStatus {
+    this.rollOver();
+    // Keeps an otherwise idle process's view current for the next caller
+    this.refresh().catch(() => undefined);
+    const bySource: Record<string, BudgetSourceUsage> = {};
+    for (const usage of [this.own, ...Object.values(this.others)]) {
+      if (usage.requests === 0) continue;
+      const total = bySource[usage.source] ?? { requests: 0, byEndpoint: {} };
+      total.requests += usage.requests;
+      for (const [endpoint, count] of Object.entries(usage.byEndpoint)) {
+        total.byEndpoint[endpoint] = (total.byEndpoint[endpoint] ?? 0) + count;
+      }
+      bySource[usage.source] = total;
+    }
+    const used = this.used();
+    return {
+      date: this.date,
+      limit: this.limit,
+      used,
+      remaining: Math.max(0, this.limit - used),
+      resetsAt: new Date(nextUtcMidnight()).toISOString(),
+      bySource,
+      activeProcesses: this.activeProcesses()
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import { analyzeCall } from './call-analytics.js';
+import { LocalCallStore } from './call-store.js';
+import { loadCallTranscripts } from './call-transcripts.js';
+import { GongClient, toAutoPaginationInfo } from './gong-client.js';
+import { GongAutoPaginationInfo, GongCall, GongRepLeaderboardArgs } from './gong-types.js';
+import { GongUserDirectory, formatUserName } from './user-directory.js';
+
+// Every call in the range needs its transcript, so cap the range by default
+export const DEFAULT_LEADERBOARD_MAX_CALLS = 500;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type LeaderboardSortKey = 'calls' | 'talkRatio' | 'questionRate' | 'averageDurationSeconds' | 'externalShare';
+
+export interface RepMetrics {
+  calls: number;
+  averageDurationSeconds: number;
+  // Rep's share of talk time across their calls
+  talkRatio: number;
+  // Questions the rep asked per hour of transcribed call time
+  questionRate: number;
+  // External speakers' share of talk time
+  externalShare: number;
+}
+
+export interface RepWeek extends RepMetrics {
+  // Monday 00:00 UTC
+  weekStart: string;
+}
+
+export interface RepLeaderboardRow extends RepMetrics {
+  userId: string;
+  name?: string;
+  email?: string;
+  weeks: RepWeek[];
+  // Week containing toDateTime minus the week before it
+  weekOverWeek?: RepMetrics & { weekStart: string; previousWeekStart: string };
+}
+
+export interface RepLeaderboardReport {
+  fromDateTime: string;
+  toDateTime?: string;
+  rows: RepLeaderboardRow[];
+  callsAnalyzed: number;
+  // Calls counted for volume and duration only, since Gong had no transcript for them
+  callsWithoutTranscript: number;
+  records?: GongAutoPaginationInfo;
+}
+
+interface MetricTotals {
+  calls: number;
+  durationSeconds: number;
+  // Duration of the calls with a transcript, so untranscribed calls don't dilute per-hour rates
+  analyzedDurationSeconds: number;
+  repTalkSeconds: number;
+  externalTalkSeconds: number;
+  talkSeconds: number;
+  repQuestions: number;
+}
+
+function emptyTotals(): MetricTotals {
+  return { calls: 0, durationSeconds: 0, analyzedDurationSeconds: 0, repTalkSeconds: 0, externalTalkSeconds: 0, talkSeconds: 0, repQuestions: 0 };
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toMetrics(totals: MetricTotals): RepMetrics {
+  return {
+    calls: totals.calls,
+    averageDurationSeconds: totals.calls > 0 ? round(totals.durationSeconds / totals.calls, 0) : 0,
+    talkRatio: totals.talkSeconds > 0 ? round(totals.repTalkSeconds / totals.talkSeconds, 3) : 0,
+    questionRate: totals.analyzedDurationSeconds > 0 ? round(totals.repQuestions / (totals.analyzedDurationSeconds / 3600), 1) : 0,
+    externalShare: totals.talkSeconds > 0 ? round(totals.externalTalkSeconds / totals.talkSeconds, 3) : 0
+  };
+}
+
+function difference(latest: RepMetrics, previous: RepMetrics): RepMetrics {
+  return {
+    calls: latest.calls - previous.calls,
+    averageDurationSeconds: latest.averageDurationSeconds - previous.averageDurationSeconds,
+    talkRatio: round(latest.talkRatio - previous.talkRatio, 3),
+    questionRate: round(latest.questionRate - previous.questionRate, 1),
+    externalShare: round(latest.externalShare - previous.externalShare, 3)
+  };
+}
+
+function weekStart(time: number): string {
+  const date = new Date(time);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)).toISOString();
+}
+
+async function listRangeCalls(
+  client: GongClient,
+  store: LocalCallStore,
+  args: GongRepLeaderboardArgs,
+  maxCalls: number
+): Promise<{ calls: GongCall[]; records?: GongAutoPaginationInfo }> {
+  const { fromDateTime, toDateTime, workspaceId, source } = args;
+  if (source === 'local') {
+    return { calls: (await store.listCalls({ fromDateTime, toDateTime, workspaceId })).slice(0, maxCalls) };
+  }
+  const collected = await client.listAllCalls(fromDateTime, toDateTime, maxCalls, undefined, workspaceId);
+  return { calls: collected.items, records: toAutoPaginationInfo(collected, maxCalls) };
+}
+
+// Per-rep coaching metrics over a date range, keyed by each call's primary Gong user
+export async function buildRepLeaderboard(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  store: LocalCallStore,
+  args: GongRepLeaderboardArgs
+): Promise<RepLeaderboardReport> {
+  const maxCalls = args.maxCalls ?? DEFAULT_LEADERBOARD_MAX_CALLS;
+  const wantedUsers = args.userIds ? new Set(args.userIds) : undefined;
+  const { calls, records } = await listRangeCalls(client, store, args, maxCalls);
+  const repCalls = calls.filter(call => call.primaryUserId && (!wantedUsers || wantedUsers.has(call.primaryUserId)));
+
+  const loaded = await loadCallTranscripts(client, directory, store, repCalls.map(call => call.id), args.source);
+  const transcripts = new Map(loaded.calls.map(({ callTranscript }) => [callTranscript.callId, callTranscript]));
+
+  const totalsByRep = new Map<string, { overall: MetricTotals; weeks: Map<string, MetricTotals> }>();
+  for (const call of repCalls) {
+    const userId = call.primaryUserId!;
+    const rep = totalsByRep.get(userId) ?? { overall: emptyTotals(), weeks: new Map<string, MetricTotals>() };
+    totalsByRep.set(userId, rep);
+    const week = weekStart(Date.parse(call.started ?? call.scheduled ?? '') || Date.now());
+    const weekTotals = rep.weeks.get(week) ?? emptyTotals();
+    rep.weeks.set(week, weekTotals);
+
+    const callTranscript = transcripts.get(call.id);
+    const analytics = callTranscript ? analyzeCall(call, callTranscript) : undefined;
+    const repSpeakerIds = new Set(callTranscript?.speakers.filter(speaker => speaker.userId === userId).map(speaker => speaker.speakerId));
+    const repStats = analytics?.speakers.filter(speaker => repSpeakerIds.has(speaker.speakerId)) ?? [];
+
+    for (const totals of [rep.overall, weekTotals]) {
+      totals.calls++;
+      totals.durationSeconds += analytics?.durationSeconds ?? call.duration ?? 0;
+      if (!analytics) continue;
+      totals.analyzedDurationSeconds += analytics.durationSeconds;
+      totals.talkSeconds += analytics.talkSeconds;
+      totals.externalTalkSeconds += analytics.bySide.external.talkSeconds;
+      totals.repTalkSeconds += repStats.reduce((total, speaker) => total + speaker.talkSeconds, 0);
+      totals.repQuestions += repStats.reduce((total, speaker) => total + speaker.questions, 0);
+    }
+  }
+
+  // Week-over-week compares the week containing toDateTime with the one before, when the range reaches back that far
+  const latestWeek = weekStart(args.toDateTime ? Date.parse(args.toDateTime) - 1 : Date.now());
+  const previousWeek = new Date(Date.parse(latestWeek) - WEEK_MS).toISOString();
+  const comparable = Date.parse(previousWeek) >= Date.parse(weekStart(Date.parse(args.fromDateTime)));
+
+  const rows: RepLeaderboardRow[] = [];
+  for (const [userId, rep] of totalsByRep) {
+    const user = directory ? await directory.getById(userId) : undefined;
+    const weeks = [...rep.weeks.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([start, totals]): RepWeek => ({ weekStart: start, ...toMetrics(totals) }));
+    // A week without calls compares as zero, so a rep who went quiet shows the drop
+    const metricsFor = (week: string) => toMetrics(rep.weeks.get(week) ?? emptyTotals());
+
+    rows.push({
+      userId,
+      name: user ? formatUserName(user) : undefined,
+      email: user?.emailAddress,
+      ...toMetrics(rep.overall),
+      weeks,
+      weekOverWeek: comparable
+        ? { weekStart: latestWeek, previousWeekStart: previousWeek, ...difference(metricsFor(latestWeek), metricsFor(previousWeek)) }
+        : undefined
+    });
+  }
+
+  const sortBy: LeaderboardSortKey = args.sortBy ?? 'calls';
+  rows.sort((a, b) => b[sortBy] - a[sortBy]);
+
+  return {
+    fromDateTime: args.fromDateTime,
+    toDateTime: args.toDateTime,
+    rows,
+    callsAnalyzed: loaded.calls.length,
+    callsWithoutTranscript: loaded.missingCallIds.length,
+    ...(records ? { records } : {})
+  };
+}
@@ -0,0 +1,119 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Date-range call listings change as calls are recorded, so they are only reused briefly
+export const DEFAULT_LISTING_CACHE_TTL_MS = 5 * 60 * 1000;
+// Parties and content of a known call rarely change once Gong has processed it
+export const DEFAULT_DETAILS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MEMORY_CACHE_ENTRIES = 2000;
+
+// bypass: neither read nor write the cache. refresh: skip cached values but store the fresh response
+export type GongCacheMode = 'default' | 'bypass' | 'refresh';
+
+export interface GongCacheEntry {
+  value: unknown;
+  // Absent for entries kept indefinitely, such as transcripts
+  expiresAt?: number;
+}
+
+export interface GongCacheBackend {
+  get(key: string): Promise<GongCacheEntry | undefined>;
+  set(key: string, entry: GongCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+function isExpired(entry: GongCacheEntry): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+// Bounded in-process cache; the least recently used entry is evicted first
+export class MemoryCacheBackend implements GongCacheBackend {
+  private entries = new Map<string, GongCacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = DEFAULT_MEMORY_CACHE_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<GongCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: GongCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// One JSON file per key, so cached transcripts survive restarts and are shared between server processes
+export class DiskCacheBackend implements GongCacheBackend {
+  private directory: string;
+  private ready?: Promise<unknown>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<GongCacheEntry | undefined> {
+    try {
+      const entry = JSON.parse(await readFile(this.fileFor(key), 'utf8')) as GongCacheEntry;
+      if (!isExpired(entry)) return entry;
+      await this.delete(key);
+    } catch {
+      // Missing or half-written file is a cache miss
+    }
+    return undefined;
+  }
+
+  async set(key: string, entry: GongCacheEntry): Promise<void> {
+    this.ready = this.ready ?? mkdir(this.directory, { recursive: true });
+    await this.ready;
+    await writeFile(this.fileFor(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.fileFor(key), { force: true });
+  }
+}
+
+// GONG_CACHE=memory (default) | disk | off
+export function cacheBackendFromEnv(): GongCacheBackend | undefined {
+  const kind = (process.env.GONG_CACHE || 'memory').toLowerCase();
+  if (kind === 'off') return undefined;
+  if (kind === 'disk') return new DiskCacheBackend(process.env.GONG_CACHE_DIR || path.join(process.cwd(), '.gong-cache'));
+  return new MemoryCacheBackend();
+}
+
+const cacheModeStorage = new AsyncLocalStorage<GongCacheMode>();
+
+// Runs fn with a cache mode that every GongClient call made inside it, however deeply nested, picks up
+export function withGongCacheMode<T>(mode: GongCacheMode, fn: () => Promise<T>): Promise<T> {
+  return cacheModeStorage.run(mode, fn);
+}
+
+export function currentGongCacheMode(): GongCacheMode {
+  return cacheModeStorage.getStore() ?? 'default';
+}
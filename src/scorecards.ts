@@ -0,0 +1,175 @@
+import { GongClient, GongCollectedRecords, toAutoPaginationInfo } from './gong-client.js';
+import {
+  GongAnsweredScorecard,
+  GongAnsweredScorecardsFilter,
+  GongAutoPaginationInfo,
+  GongGetAnsweredScorecardsArgs,
+} from './gong-types.js';
+import { GongUserDirectory, formatUserName } from './user-directory.js';
+
+export interface ScorecardPerson {
+  userId: string;
+  name?: string;
+}
+
+export interface ReviewedScorecard {
+  answeredScorecardId: string;
+  scorecardName: string;
+  workspaceId?: string;
+  callId: string;
+  callTitle?: string;
+  callStartTime?: string;
+  reviewedUser?: ScorecardPerson;
+  reviewer?: ScorecardPerson;
+  reviewTime?: string;
+  answers: Array<{
+    questionText: string;
+    isOverall?: boolean;
+    score?: number;
+    answerText?: string;
+    notApplicable?: boolean;
+  }>;
+}
+
+export interface ScorecardQuestionSummary {
+  scorecardName: string;
+  questionText: string;
+  averageScore: number;
+  answeredCount: number;
+}
+
+export interface AnsweredScorecardsReport {
+  answeredScorecards: ReviewedScorecard[];
+  // Lowest average first, so the weakest sections lead
+  questionSummary: ScorecardQuestionSummary[];
+  records: GongAutoPaginationInfo;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Gong filters answered scorecards by call date, not call ID, so derive a date window covering the requested calls
+async function callDateWindow(client: GongClient, callIds: string[]): Promise<{ callFromDate?: string; callToDate?: string; titles: Map<string, string> }> {
+  const { items: calls } = await client.getAllCallsExtensive({ callIds }, []);
+  const titles = new Map(calls.map(call => [call.metaData.id, call.metaData.title]));
+  const starts = calls
+    .map(call => Date.parse(call.metaData.started ?? call.metaData.scheduled ?? ''))
+    .filter(time => !Number.isNaN(time));
+  if (starts.length === 0) return { titles };
+
+  return {
+    callFromDate: new Date(Math.min(...starts)).toISOString().slice(0, 10),
+    callToDate: new Date(Math.max(...starts) + DAY_MS).toISOString().slice(0, 10),
+    titles
+  };
+}
+
+async function toPerson(directory: GongUserDirectory | null, userId?: string): Promise<ScorecardPerson | undefined> {
+  if (!userId) return undefined;
+  const user = directory ? await directory.getById(userId) : undefined;
+  return { userId, name: user ? formatUserName(user) : undefined };
+}
+
+function summarizeQuestions(scorecards: ReviewedScorecard[]): ScorecardQuestionSummary[] {
+  const totals = new Map<string, { scorecardName: string; questionText: string; sum: number; count: number }>();
+  for (const scorecard of scorecards) {
+    for (const answer of scorecard.answers) {
+      if (answer.notApplicable || typeof answer.score !== 'number') continue;
+      const key = `${scorecard.scorecardName}\u0000${answer.questionText}`;
+      const total = totals.get(key) ?? { scorecardName: scorecard.scorecardName, questionText: answer.questionText, sum: 0, count: 0 };
+      total.sum += answer.score;
+      total.count++;
+      totals.set(key, total);
+    }
+  }
+
+  return [...totals.values()]
+    .map(({ scorecardName, questionText, sum, count }) => ({
+      scorecardName,
+      questionText,
+      averageScore: Math.round((sum / count) * 100) / 100,
+      answeredCount: count
+    }))
+    .sort((a, b) => a.averageScore - b.averageScore);
+}
+
+// Fetches answered scorecards and joins in call titles, reviewer names and question text
+export async function buildAnsweredScorecardsReport(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  args: GongGetAnsweredScorecardsArgs
+): Promise<AnsweredScorecardsReport> {
+  const { fromDate, toDate, callIds, scorecardIds, reviewedUserIds, maxRecords } = args;
+  const workspaceId = args.workspaceId ?? client.defaultWorkspaceId;
+  const filter: GongAnsweredScorecardsFilter = {};
+  let titles = new Map<string, string>();
+
+  // Definitions carry the question text and, since answers have no workspace of their own, the workspace
+  const { scorecards } = await client.listScorecards(workspaceId);
+  const questionText = new Map<string, string>();
+  const scorecardWorkspace = new Map<string, string | undefined>();
+  for (const scorecard of scorecards ?? []) {
+    scorecardWorkspace.set(scorecard.scorecardId, scorecard.workspaceId);
+    for (const question of scorecard.questions ?? []) {
+      questionText.set(question.questionId, question.questionText);
+    }
+  }
+
+  if (fromDate) filter.callFromDate = fromDate.slice(0, 10);
+  if (toDate) filter.callToDate = toDate.slice(0, 10);
+  if (callIds && callIds.length > 0) {
+    const window = await callDateWindow(client, callIds);
+    titles = window.titles;
+    filter.callFromDate = filter.callFromDate ?? window.callFromDate;
+    filter.callToDate = filter.callToDate ?? window.callToDate;
+  }
+  if (scorecardIds && scorecardIds.length > 0) filter.scorecardIds = scorecardIds;
+  if (workspaceId) {
+    filter.scorecardIds = filter.scorecardIds
+      ? filter.scorecardIds.filter(id => scorecardWorkspace.has(id))
+      : [...scorecardWorkspace.keys()];
+  }
+  if (reviewedUserIds && reviewedUserIds.length > 0) filter.reviewedUserIds = reviewedUserIds;
+
+  // An empty scorecardIds filter would mean "every scorecard" to Gong
+  const collected: GongCollectedRecords<GongAnsweredScorecard> = filter.scorecardIds?.length === 0
+    ? { items: [], pagesFetched: 0, maxRecordsReached: false }
+    : await client.getAllAnsweredScorecards(filter, maxRecords);
+  const wanted = callIds && callIds.length > 0 ? new Set(callIds) : undefined;
+  const answered: GongAnsweredScorecard[] = wanted
+    ? collected.items.filter(scorecard => wanted.has(scorecard.callId))
+    : collected.items;
+
+  const missingTitles = [...new Set(answered.map(scorecard => scorecard.callId))].filter(id => !titles.has(id));
+  if (missingTitles.length > 0) {
+    const { items: calls } = await client.getAllCallsExtensive({ callIds: missingTitles }, []);
+    for (const call of calls) titles.set(call.metaData.id, call.metaData.title);
+  }
+
+  const answeredScorecards: ReviewedScorecard[] = [];
+  for (const scorecard of answered) {
+    answeredScorecards.push({
+      answeredScorecardId: scorecard.answeredScorecardId,
+      scorecardName: scorecard.scorecardName,
+      workspaceId: scorecardWorkspace.get(scorecard.scorecardId),
+      callId: scorecard.callId,
+      callTitle: titles.get(scorecard.callId),
+      callStartTime: scorecard.callStartTime,
+      reviewedUser: await toPerson(directory, scorecard.reviewedUserId),
+      reviewer: await toPerson(directory, scorecard.reviewerUserId),
+      reviewTime: scorecard.reviewTime,
+      answers: (scorecard.answers ?? []).map(answer => ({
+        questionText: questionText.get(answer.questionId) ?? answer.questionId,
+        isOverall: answer.isOverall,
+        score: answer.score,
+        answerText: answer.answerText,
+        notApplicable: answer.notApplicable
+      }))
+    });
+  }
+
+  return {
+    answeredScorecards,
+    questionSummary: summarizeQuestions(answeredScorecards),
+    records: { ...toAutoPaginationInfo(collected, maxRecords), returnedRecords: answeredScorecards.length }
+  };
+}
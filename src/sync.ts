@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+// Syncs Gong calls and transcripts into the local store from the command line:
+//   npm run sync                                    incremental sync from the last watermark
+//   npm run sync -- --backfill --from <date> [--to <date>]
+//   npm run sync -- --status
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { LocalCallStore } from './call-store.js';
+import { CallSync, SyncOptions } from './call-sync.js';
+import { GongClient, gongClientOptionsFromEnv } from './gong-client.js';
+import { GongUserDirectory } from './user-directory.js';
+
+dotenv.config();
+
+const GONG_ACCESS_KEY = process.env.GONG_ACCESS_KEY;
+const GONG_ACCESS_SECRET = process.env.GONG_ACCESS_SECRET;
+
+if (!GONG_ACCESS_KEY || !GONG_ACCESS_SECRET) {
+  console.error("Error: GONG_ACCESS_KEY and GONG_ACCESS_SECRET environment variables are required");
+  process.exit(1);
+}
+
+function optionValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Bare dates cover whole days, like list_calls
+function toIsoDateTime(value: string | undefined, endOfDay: boolean): string | undefined {
+  if (!value || value.includes('T')) return value;
+  return `${value}T${endOfDay ? '23:59:59' : '00:00:00'}Z`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const gongClient = new GongClient(GONG_ACCESS_KEY!, GONG_ACCESS_SECRET!, gongClientOptionsFromEnv('sync'));
+  const store = new LocalCallStore(process.env.GONG_STORE_DIR || path.join(process.cwd(), '.gong-store'));
+  const callSync = new CallSync(gongClient, new GongUserDirectory(gongClient), store);
+
+  if (args.includes('--status')) {
+    console.log(JSON.stringify(await callSync.status(), null, 2));
+    return;
+  }
+
+  const options: SyncOptions = {
+    mode: args.includes('--backfill') ? 'backfill' : 'incremental',
+    fromDateTime: toIsoDateTime(optionValue(args, '--from'), false),
+    toDateTime: toIsoDateTime(optionValue(args, '--to'), true)
+  };
+  try {
+    console.log(JSON.stringify(await callSync.run(options), null, 2));
+  } finally {
+    await gongClient.flushBudget();
+  }
+}
+
+main().catch((error) => {
+  console.error("Sync failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
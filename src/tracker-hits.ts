@@ -0,0 +1,139 @@
+import { GongClient, toAutoPaginationInfo } from './gong-client.js';
+import {
+  GongAutoPaginationInfo,
+  GongCallTranscript,
+  GongCallsExtensiveFilter,
+  GongGetTrackerHitsArgs,
+  GongSpeaker,
+} from './gong-types.js';
+import { formatOffset } from './time-format.js';
+import { speakersFromParties } from './transcript-speakers.js';
+import { GongUserDirectory } from './user-directory.js';
+
+// Transcripts are fetched for every matched call, so keep the default window small
+export const DEFAULT_TRACKER_HITS_MAX_CALLS = 50;
+
+export interface TrackerHit {
+  startSeconds: number;
+  timestamp: string;
+  speakerId?: string;
+  speakerName?: string;
+  affiliation: GongSpeaker['affiliation'];
+  sentence?: string;
+}
+
+export interface CallTrackerHits {
+  callId: string;
+  title: string;
+  started?: string;
+  url?: string;
+  trackers: Array<{
+    trackerId: string;
+    name: string;
+    count: number;
+    hits: TrackerHit[];
+  }>;
+}
+
+export interface TrackerHitsReport {
+  calls: CallTrackerHits[];
+  records: GongAutoPaginationInfo;
+}
+
+interface TimedSentence {
+  start: number;
+  speakerId: string;
+  text: string;
+}
+
+function flattenSentences(callTranscript: GongCallTranscript): TimedSentence[] {
+  return callTranscript.transcript
+    .flatMap(monologue => monologue.sentences.map(sentence => ({ start: sentence.start, speakerId: monologue.speakerId, text: sentence.text })))
+    .sort((a, b) => a.start - b.start);
+}
+
+// The sentence being spoken at offsetMs: the last one that started at or before it
+function sentenceAt(sentences: TimedSentence[], offsetMs: number): TimedSentence | undefined {
+  let low = 0;
+  let high = sentences.length - 1;
+  let found: TimedSentence | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sentences[mid].start <= offsetMs) {
+      found = sentences[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Joins Gong's tracker occurrences with the transcript sentence and speaker at each timestamp
+export async function buildTrackerHitsReport(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  args: GongGetTrackerHitsArgs
+): Promise<TrackerHitsReport> {
+  const { callIds, fromDateTime, toDateTime, trackerNames, workspaceId } = args;
+  const maxCalls = args.maxCalls ?? DEFAULT_TRACKER_HITS_MAX_CALLS;
+  const filter: GongCallsExtensiveFilter = { workspaceId };
+  if (callIds && callIds.length > 0) filter.callIds = callIds;
+  if (fromDateTime) filter.fromDateTime = fromDateTime;
+  if (toDateTime) filter.toDateTime = toDateTime;
+
+  const collected = await client.getAllCallsExtensive(filter, ['trackers', 'parties'], maxCalls);
+  const wantedNames = trackerNames?.map(name => name.toLowerCase());
+  const matchesName = (name: string) => !wantedNames || wantedNames.some(wanted => name.toLowerCase().includes(wanted));
+
+  const callsWithHits = collected.items.filter(call =>
+    (call.content?.trackers ?? []).some(tracker => tracker.count > 0 && matchesName(tracker.name)));
+
+  const sentencesByCall = new Map<string, TimedSentence[]>();
+  if (callsWithHits.length > 0) {
+    const transcripts = await client.retrieveAllTranscripts(callsWithHits.map(call => call.metaData.id));
+    for (const callTranscript of transcripts.items) {
+      sentencesByCall.set(callTranscript.callId, flattenSentences(callTranscript));
+    }
+  }
+
+  const calls: CallTrackerHits[] = [];
+  for (const call of callsWithHits) {
+    const speakers = await speakersFromParties(call, directory);
+    const sentences = sentencesByCall.get(call.metaData.id) ?? [];
+
+    const trackers = (call.content?.trackers ?? [])
+      .filter(tracker => tracker.count > 0 && matchesName(tracker.name))
+      .map(tracker => ({
+        trackerId: tracker.id,
+        name: tracker.name,
+        count: tracker.count,
+        hits: (tracker.occurrences ?? [])
+          .slice()
+          .sort((a, b) => a.startTime - b.startTime)
+          .map(occurrence => {
+            const sentence = sentenceAt(sentences, occurrence.startTime * 1000);
+            const speakerId = occurrence.speakerId ?? sentence?.speakerId;
+            const speaker = speakerId ? speakers.get(speakerId) : undefined;
+            return {
+              startSeconds: occurrence.startTime,
+              timestamp: formatOffset(occurrence.startTime),
+              speakerId,
+              speakerName: speaker?.name,
+              affiliation: speaker?.affiliation ?? 'unknown',
+              sentence: sentence?.text
+            };
+          })
+      }));
+
+    calls.push({
+      callId: call.metaData.id,
+      title: call.metaData.title,
+      started: call.metaData.started,
+      url: call.metaData.url,
+      trackers
+    });
+  }
+
+  return { calls, records: toAutoPaginationInfo(collected, maxCalls) };
+}
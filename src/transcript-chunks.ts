@@ -0,0 +1,212 @@
+import { randomUUID } from 'crypto';
+import { GongCallTranscript, GongTranscript } from './gong-types.js';
+import { TranscriptFormat, formatTranscripts } from './transcript-format.js';
+
+// Rough English average, good enough to turn a token budget into a character budget
+export const CHARS_PER_TOKEN = 4;
+// Unread chunks are dropped after this long without a request
+export const CHUNK_CURSOR_TTL_MS = 30 * 60 * 1000;
+
+export interface TranscriptContinuation {
+  chunk: number;
+  totalChunks: number;
+  // Pass back as continuationCursor for the next chunk; absent on the last chunk
+  cursor?: string;
+}
+
+export interface TranscriptChunk<T extends GongCallTranscript> {
+  callTranscripts: T[];
+  format: TranscriptFormat;
+  // Response fields that came with the full transcript (records, workspaceId, ...), repeated on every chunk
+  response: Record<string, unknown>;
+  continuation: TranscriptContinuation;
+}
+
+interface ChunkUnit<T extends GongCallTranscript> {
+  callTranscript: T;
+  monologue: GongTranscript;
+  size: number;
+  // Charged once per chunk for the first unit of each call: the call's own fields around its transcript
+  callSize: number;
+  // First unit of a call or of a new topic: the preferred place to end a chunk
+  boundary: boolean;
+}
+
+interface PendingChunks {
+  callIds: string[];
+  format: TranscriptFormat;
+  response: Record<string, unknown>;
+  chunks: GongCallTranscript[][];
+  expiresAt: number;
+}
+
+// Length of a value pretty-printed at the given nesting depth, plus the ",\n" that separates it from the next item
+function nestedJsonLength(value: unknown, depth: number): number {
+  const json = JSON.stringify(value, null, 2);
+  const lines = json.split('\n').length;
+  return json.length + lines * depth * 2 + 2;
+}
+
+// JSON chunks are the whole tool response: { ...response, callTranscripts: [{ ...call, transcript: [monologue] }] },
+// so a monologue is printed four levels deep and a call's fields two levels deep
+function unitSize(callTranscript: GongCallTranscript, monologue: GongTranscript, format: TranscriptFormat): number {
+  if (format === 'json') return nestedJsonLength(monologue, 4);
+  return formatTranscripts([{ ...callTranscript, transcript: [monologue] }], format).length;
+}
+
+function callSize(callTranscript: GongCallTranscript, format: TranscriptFormat): number {
+  if (format !== 'json') return 0;
+  // The filled transcript array also gains a line break and closing indent over the empty one measured here
+  return nestedJsonLength({ ...callTranscript, transcript: [] }, 2) + 8;
+}
+
+// What every chunk spends outside its transcripts: the response fields and continuation (in the JSON body,
+// or in the metadata block that follows the other formats)
+function wrapperSize(response: Record<string, unknown>, format: TranscriptFormat): number {
+  const continuation: TranscriptContinuation = { chunk: 9999, totalChunks: 9999, cursor: `${randomUUID()}.9999` };
+  const wrapper = format === 'json' ? { ...response, callTranscripts: [], continuation } : { ...response, continuation };
+  return JSON.stringify(wrapper, null, 2).length + 8;
+}
+
+// Whole speaker turns where they fit; a turn larger than the budget is cut between sentences
+function toUnits<T extends GongCallTranscript>(callTranscripts: T[], format: TranscriptFormat, budget: number): ChunkUnit<T>[] {
+  const units: ChunkUnit<T>[] = [];
+  for (const callTranscript of callTranscripts) {
+    const callOverhead = callSize(callTranscript, format);
+    let previousTopic: string | undefined | null = null;
+    for (const monologue of callTranscript.transcript) {
+      const boundary = previousTopic === null || monologue.topic !== previousTopic;
+      previousTopic = monologue.topic;
+
+      const size = unitSize(callTranscript, monologue, format);
+      if (size + callOverhead <= budget || monologue.sentences.length <= 1) {
+        units.push({ callTranscript, monologue, size, callSize: callOverhead, boundary });
+        continue;
+      }
+      let part: GongTranscript = { ...monologue, sentences: [] };
+      let firstPart = true;
+      for (const sentence of monologue.sentences) {
+        const candidate = { ...part, sentences: [...part.sentences, sentence] };
+        if (part.sentences.length > 0 && unitSize(callTranscript, candidate, format) + callOverhead > budget) {
+          units.push({ callTranscript, monologue: part, size: unitSize(callTranscript, part, format), callSize: callOverhead, boundary: firstPart && boundary });
+          part = { ...monologue, sentences: [sentence] };
+          firstPart = false;
+        } else {
+          part = candidate;
+        }
+      }
+      units.push({ callTranscript, monologue: part, size: unitSize(callTranscript, part, format), callSize: callOverhead, boundary: firstPart && boundary });
+    }
+  }
+  return units;
+}
+
+// Regroups a chunk's units into per-call transcripts
+function toCallTranscripts<T extends GongCallTranscript>(units: ChunkUnit<T>[]): T[] {
+  const calls: T[] = [];
+  for (const unit of units) {
+    const last = calls[calls.length - 1];
+    if (last && last.callId === unit.callTranscript.callId) {
+      last.transcript.push(unit.monologue);
+    } else {
+      calls.push({ ...unit.callTranscript, transcript: [unit.monologue] });
+    }
+  }
+  return calls;
+}
+
+// Packs units greedily; when a chunk fills up it ends at its last call/topic boundary if that keeps at least half the budget
+function pack<T extends GongCallTranscript>(units: ChunkUnit<T>[], budget: number): T[][] {
+  const chunks: T[][] = [];
+  let current: ChunkUnit<T>[] = [];
+  const size = (list: ChunkUnit<T>[]) => list.reduce(
+    (total, unit, index) => total + unit.size + (list[index - 1]?.callTranscript === unit.callTranscript ? 0 : unit.callSize),
+    0
+  );
+
+  for (const unit of units) {
+    while (current.length > 0 && size([...current, unit]) > budget) {
+      let cut = current.length;
+      for (let index = current.length - 1; index > 0; index--) {
+        if (current[index].boundary && size(current.slice(0, index)) >= budget / 2) {
+          cut = index;
+          break;
+        }
+      }
+      chunks.push(toCallTranscripts(current.slice(0, cut)));
+      current = current.slice(cut);
+    }
+    current.push(unit);
+  }
+  if (current.length > 0 || chunks.length === 0) chunks.push(toCallTranscripts(current));
+  return chunks;
+}
+
+// Splits transcripts that would not fit a caller's character budget and holds the remaining chunks
+// behind a server-issued cursor. This pages within calls; Gong's records.cursor pages between calls.
+export class TranscriptChunker {
+  private pending = new Map<string, PendingChunks>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number = CHUNK_CURSOR_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  private dropExpired(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(id);
+    }
+  }
+
+  private chunkAt<T extends GongCallTranscript>(id: string, entry: PendingChunks, index: number): TranscriptChunk<T> {
+    const isLast = index === entry.chunks.length - 1;
+    if (isLast) {
+      this.pending.delete(id);
+    } else {
+      entry.expiresAt = Date.now() + this.ttlMs;
+    }
+    return {
+      callTranscripts: entry.chunks[index] as T[],
+      format: entry.format,
+      response: entry.response,
+      continuation: {
+        chunk: index + 1,
+        totalChunks: entry.chunks.length,
+        cursor: isLast ? undefined : `${id}.${index + 1}`
+      }
+    };
+  }
+
+  split<T extends GongCallTranscript>(
+    callTranscripts: T[],
+    format: TranscriptFormat,
+    budgetChars: number,
+    callIds: string[],
+    response: Record<string, unknown>
+  ): TranscriptChunk<T> {
+    this.dropExpired();
+    // A response too small for even its wrapper still gets one monologue per chunk
+    const transcriptBudget = Math.max(1, budgetChars - wrapperSize(response, format));
+    const chunks = pack(toUnits(callTranscripts, format, transcriptBudget), transcriptBudget);
+    const id = randomUUID();
+    const entry: PendingChunks = { callIds, format, response, chunks, expiresAt: Date.now() + this.ttlMs };
+    this.pending.set(id, entry);
+    return this.chunkAt<T>(id, entry, 0);
+  }
+
+  // Cursors name a chunk, so a retried request gets the same chunk again until the last one is read
+  resume<T extends GongCallTranscript>(cursor: string, callIds: string[]): TranscriptChunk<T> {
+    this.dropExpired();
+    const [id, position] = cursor.split('.');
+    const entry = this.pending.get(id);
+    const index = Number(position);
+    if (!entry || !Number.isInteger(index) || index < 1 || index >= entry.chunks.length) {
+      throw new Error('Unknown or expired continuationCursor; request the transcript again without it');
+    }
+    if (entry.callIds.join(',') !== callIds.join(',')) {
+      throw new Error('continuationCursor was issued for different callIds');
+    }
+    return this.chunkAt<T>(id, entry, index);
+  }
+}
@@ -0,0 +1,162 @@
+import { GongCallTranscript, GongEnrichedCallTranscript, GongTranscript } from './gong-types.js';
+import { formatOffset } from './time-format.js';
+
+// json is Gong's shape; the others trade structure for far fewer tokens
+export const TRANSCRIPT_FORMATS = ['json', 'text', 'markdown', 'vtt', 'srt'] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json',
+  text: 'text/plain; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8'
+};
+
+const ACCEPTED_MEDIA_TYPES: Record<string, TranscriptFormat> = {
+  'application/json': 'json',
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/vtt': 'vtt',
+  'application/x-subrip': 'srt',
+  'text/srt': 'srt'
+};
+
+type FormattableTranscript = GongCallTranscript | GongEnrichedCallTranscript;
+
+// Picks the first supported type in an Accept header; a missing header or a wildcard means json,
+// and undefined means nothing acceptable was offered
+export function transcriptFormatForAccept(accept?: string): TranscriptFormat | undefined {
+  if (!accept) return 'json';
+  const mediaTypes = accept
+    .split(',')
+    .map(part => {
+      const [type, ...params] = part.trim().toLowerCase().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { type, quality: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { type } of mediaTypes) {
+    if (ACCEPTED_MEDIA_TYPES[type]) return ACCEPTED_MEDIA_TYPES[type];
+    if (type === '*/*' || type === 'application/*') return 'json';
+    if (type === 'text/*') return 'text';
+  }
+  return undefined;
+}
+
+function speakerLabel(callTranscript: FormattableTranscript, monologue: GongTranscript & { speakerName?: string }): string {
+  if (monologue.speakerName) return monologue.speakerName;
+  const speaker = 'speakers' in callTranscript ? callTranscript.speakers.find(s => s.speakerId === monologue.speakerId) : undefined;
+  return speaker?.name ?? `Speaker ${monologue.speakerId}`;
+}
+
+function monologueText(monologue: GongTranscript): string {
+  return monologue.sentences.map(sentence => sentence.text.trim()).join(' ');
+}
+
+function toText(callTranscripts: FormattableTranscript[]): string {
+  return callTranscripts
+    .map(callTranscript => [
+      `Call ${callTranscript.callId}`,
+      ...callTranscript.transcript
+        .filter(monologue => monologue.sentences.length > 0)
+        .map(monologue => `${speakerLabel(callTranscript, monologue)} [${formatOffset(monologue.sentences[0].start / 1000)}]: ${monologueText(monologue)}`)
+    ].join('\n'))
+    .join('\n\n');
+}
+
+// Consecutive monologues on the same Gong topic share a heading
+function toMarkdown(callTranscripts: FormattableTranscript[]): string {
+  return callTranscripts
+    .map(callTranscript => {
+      const lines = [`## Call ${callTranscript.callId}`, ''];
+      let currentTopic: string | undefined | null = null;
+      for (const monologue of callTranscript.transcript) {
+        if (monologue.sentences.length === 0) continue;
+        const start = formatOffset(monologue.sentences[0].start / 1000);
+        if (monologue.topic !== currentTopic) {
+          currentTopic = monologue.topic;
+          lines.push(`### ${currentTopic || 'No topic'} (${start})`, '');
+        }
+        // Excerpts carry a deep link into the recording (see linkTranscriptExcerpts)
+        const url = (monologue as GongTranscript & { url?: string }).url;
+        lines.push(`**${speakerLabel(callTranscript, monologue)}** [${url ? `[${start}](${url})` : start}]: ${monologueText(monologue)}`, '');
+      }
+      return lines.join('\n').trimEnd();
+    })
+    .join('\n\n');
+}
+
+function subtitleTime(ms: number, separator: '.' | ','): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(total / 3600000))}:${pad(Math.floor(total / 60000) % 60)}:${pad(Math.floor(total / 1000) % 60)}${separator}${pad(total % 1000, 3)}`;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// One cue per sentence; sentences without an end run until the next one starts
+function toCues(callTranscript: FormattableTranscript): Cue[] {
+  const cues = callTranscript.transcript
+    .flatMap(monologue => monologue.sentences.map(sentence => ({
+      start: sentence.start,
+      end: sentence.end ?? sentence.start,
+      speaker: speakerLabel(callTranscript, monologue),
+      text: sentence.text.trim()
+    })))
+    .sort((a, b) => a.start - b.start);
+  cues.forEach((cue, index) => {
+    if (cue.end <= cue.start) cue.end = cues[index + 1]?.start ?? cue.start + 1000;
+  });
+  return cues;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function toVtt(callTranscripts: FormattableTranscript[]): string {
+  const blocks = ['WEBVTT'];
+  for (const callTranscript of callTranscripts) {
+    if (callTranscripts.length > 1) blocks.push(`NOTE Call ${callTranscript.callId}`);
+    for (const cue of toCues(callTranscript)) {
+      blocks.push(`${subtitleTime(cue.start, '.')} --> ${subtitleTime(cue.end, '.')}\n<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}`);
+    }
+  }
+  return blocks.join('\n\n') + '\n';
+}
+
+// SRT has no comment syntax, so with several calls each call's first cue is prefixed with its ID instead; numbering
+// runs on across calls, since players expect one sequence per file
+function toSrt(callTranscripts: FormattableTranscript[]): string {
+  const blocks: string[] = [];
+  for (const callTranscript of callTranscripts) {
+    toCues(callTranscript).forEach((cue, index) => {
+      const label = callTranscripts.length > 1 && index === 0 ? `[Call ${callTranscript.callId}] ` : '';
+      blocks.push(`${blocks.length + 1}\n${subtitleTime(cue.start, ',')} --> ${subtitleTime(cue.end, ',')}\n${label}${cue.speaker}: ${cue.text}`);
+    });
+  }
+  return blocks.join('\n\n') + '\n';
+}
+
+export function formatTranscripts(callTranscripts: FormattableTranscript[], format: TranscriptFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(callTranscripts, null, 2);
+    case 'text':
+      return toText(callTranscripts);
+    case 'markdown':
+      return toMarkdown(callTranscripts);
+    case 'vtt':
+      return toVtt(callTranscripts);
+    case 'srt':
+      return toSrt(callTranscripts);
+  }
+}
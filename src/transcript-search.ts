@@ -0,0 +1,376 @@
+import { LocalCallStore } from './call-store.js';
+import { LoadedCallTranscript, loadCallTranscripts } from './call-transcripts.js';
+import { GongClient } from './gong-client.js';
+import { GongCall, GongEnrichedCallTranscript, GongFindQuotesArgs, GongSearchTranscriptsArgs, GongSpeaker } from './gong-types.js';
+import { formatOffset } from './time-format.js';
+import { gongCallLinkAt } from './transcript-window.js';
+import { GongUserDirectory } from './user-directory.js';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+// Sentences the same speaker said either side of a matching one, so a quote keeps its surrounding thought
+export const QUOTE_CONTEXT_SENTENCES = 1;
+// Standard BM25 saturation and length-normalisation constants
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Free-mail domains say nothing about who a speaker works for
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com'
+]);
+
+export interface TranscriptSearchResult {
+  callId: string;
+  title?: string;
+  started?: string;
+  url?: string;
+  speakerId: string;
+  speakerName?: string;
+  affiliation: GongSpeaker['affiliation'];
+  startSeconds: number;
+  timestamp: string;
+  snippet: string;
+  score: number;
+}
+
+export interface TranscriptSearchReport {
+  query: string;
+  results: TranscriptSearchResult[];
+  totalMatches: number;
+  searchedCalls: number;
+  // Requested calls that are neither synced nor available from Gong
+  missingCallIds?: string[];
+  // Explains an empty synced corpus, which is otherwise indistinguishable from no matches
+  note?: string;
+}
+
+export interface TranscriptQuote {
+  quote: string;
+  callId: string;
+  callTitle?: string;
+  callStarted?: string;
+  speakerId: string;
+  speakerName?: string;
+  // The speaker's email domain; Gong parties carry no company name
+  company?: string;
+  // Span of the whole quote, context sentences included
+  startSeconds: number;
+  endSeconds: number;
+  // Where the first matching sentence starts, which is also where url opens the recording
+  timestamp: string;
+  url?: string;
+}
+
+export interface QuoteSearchReport {
+  query: string;
+  quotes: TranscriptQuote[];
+  totalMatches: number;
+  searchedCalls: number;
+  missingCallIds?: string[];
+  note?: string;
+}
+
+// A term is one token, or several for a quoted phrase
+type QueryNode =
+  | { type: 'term'; tokens: string[] }
+  | { type: 'and' | 'or'; nodes: QueryNode[] }
+  | { type: 'not'; node: QueryNode };
+
+interface SearchDocument {
+  call: GongCall;
+  speaker: GongSpeaker;
+  sentences: Array<{ start: number; text: string; tokens: string[] }>;
+  tokens: string[];
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function lex(query: string): string[] {
+  return query.match(/-?"[^"]*"?|[()]|[^\s()]+/g) ?? [];
+}
+
+// Parses terms, "quoted phrases", AND (implied between terms), OR, NOT or a leading -, and parentheses
+function parseSearchQuery(query: string): QueryNode {
+  const tokens = lex(query);
+  let position = 0;
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (tokens[position] === 'OR') {
+      position++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseUnary()];
+    while (position < tokens.length && tokens[position] !== 'OR' && tokens[position] !== ')') {
+      if (tokens[position] === 'AND') position++;
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[position];
+    if (token === undefined) throw new Error(`Search query ends unexpectedly: ${query}`);
+    if (token === 'NOT') {
+      position++;
+      return { type: 'not', node: parseUnary() };
+    }
+    if (token.startsWith('-') && token.length > 1) {
+      tokens[position] = token.slice(1);
+      return { type: 'not', node: parseUnary() };
+    }
+    position++;
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[position++] !== ')') throw new Error(`Unbalanced parentheses in search query: ${query}`);
+      return node;
+    }
+    const termTokens = tokenize(token);
+    if (termTokens.length === 0) throw new Error(`Search query term has no searchable text: ${token}`);
+    return { type: 'term', tokens: termTokens };
+  };
+
+  const root = parseOr();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in search query: ${query}`);
+  if (positiveTerms(root).length === 0) throw new Error('Search query needs at least one term that is not negated');
+  return root;
+}
+
+// Terms outside NOT; these are what a match is scored on
+function positiveTerms(node: QueryNode): string[][] {
+  if (node.type === 'term') return [node.tokens];
+  if (node.type === 'not') return [];
+  return node.nodes.flatMap(positiveTerms);
+}
+
+function countOccurrences(tokens: string[], term: string[]): number {
+  let count = 0;
+  for (let i = 0; i + term.length <= tokens.length; i++) {
+    if (term.every((token, offset) => tokens[i + offset] === token)) count++;
+  }
+  return count;
+}
+
+function matches(node: QueryNode, tokens: string[]): boolean {
+  switch (node.type) {
+    case 'term':
+      return countOccurrences(tokens, node.tokens) > 0;
+    case 'and':
+      return node.nodes.every(child => matches(child, tokens));
+    case 'or':
+      return node.nodes.some(child => matches(child, tokens));
+    case 'not':
+      return !matches(node.node, tokens);
+  }
+}
+
+// One document per monologue, so a hit is attributed to a single speaker
+function toDocuments(call: GongCall, callTranscript: GongEnrichedCallTranscript): SearchDocument[] {
+  const speakers = new Map(callTranscript.speakers.map(speaker => [speaker.speakerId, speaker]));
+  return callTranscript.transcript.map(monologue => {
+    const sentences = monologue.sentences.map(sentence => ({ start: sentence.start, text: sentence.text, tokens: tokenize(sentence.text) }));
+    return {
+      call,
+      speaker: speakers.get(monologue.speakerId) ?? { speakerId: monologue.speakerId, name: monologue.speakerName, affiliation: 'unknown' },
+      sentences,
+      tokens: sentences.flatMap(sentence => sentence.tokens)
+    };
+  });
+}
+
+// Synced calls come from the local store; requested calls that were never synced are read through
+// the Gong client, which answers from the response cache when it can
+async function loadCorpus(
+  store: LocalCallStore,
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  args: Pick<GongSearchTranscriptsArgs, 'fromDateTime' | 'toDateTime' | 'workspaceId' | 'callIds'>
+): Promise<{ corpus: LoadedCallTranscript[]; missingCallIds?: string[]; note?: string }> {
+  const { fromDateTime, toDateTime, workspaceId, callIds } = args;
+  const corpus: LoadedCallTranscript[] = [];
+  for (const call of await store.listCalls({ fromDateTime, toDateTime, workspaceId, callIds })) {
+    const callTranscript = await store.getTranscript(call.id);
+    if (callTranscript) corpus.push({ call, callTranscript });
+  }
+  // Transcripts fetched by retrieve_transcripts stay in the response cache, which can't be listed, so only
+  // synced calls are searched unless callIds names others
+  if (!callIds) {
+    return corpus.length > 0 ? { corpus } : {
+      corpus,
+      note: 'No synced transcripts match these filters. Only calls synced by sync_calls are searched; pass callIds to search other calls, such as ones read with retrieve_transcripts.'
+    };
+  }
+
+  const unsynced: string[] = [];
+  for (const callId of callIds) {
+    if (!(await store.hasTranscript(callId))) unsynced.push(callId);
+  }
+  const fetched = await loadCallTranscripts(client, directory, store, unsynced, 'api');
+
+  const from = fromDateTime ? Date.parse(fromDateTime) : -Infinity;
+  const to = toDateTime ? Date.parse(toDateTime) : Infinity;
+  for (const item of fetched.calls) {
+    const started = Date.parse(item.call.started ?? '');
+    if (!Number.isNaN(started) && (started < from || started > to)) continue;
+    if (workspaceId && item.call.workspaceId && item.call.workspaceId !== workspaceId) continue;
+    corpus.push(item);
+  }
+  return { corpus, missingCallIds: fetched.missingCallIds };
+}
+
+function bm25(tf: number, df: number, documentCount: number, length: number, averageLength: number): number {
+  const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+  return idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+}
+
+// The sentence with the most query hits stands in for the monologue
+function bestSentence(document: SearchDocument, terms: string[][]): SearchDocument['sentences'][number] {
+  let best = document.sentences[0];
+  let bestHits = -1;
+  for (const sentence of document.sentences) {
+    const hits = terms.reduce((total, term) => total + countOccurrences(sentence.tokens, term), 0);
+    if (hits > bestHits) {
+      best = sentence;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+export async function searchTranscripts(
+  store: LocalCallStore,
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  args: GongSearchTranscriptsArgs
+): Promise<TranscriptSearchReport> {
+  const query = parseSearchQuery(args.query);
+  const terms = positiveTerms(query);
+  const { corpus, missingCallIds, note } = await loadCorpus(store, client, directory, args);
+
+  const documents = corpus
+    .flatMap(({ call, callTranscript }) => toDocuments(call, callTranscript))
+    .filter(document => document.tokens.length > 0)
+    .filter(document => !args.speakerAffiliation || document.speaker.affiliation === args.speakerAffiliation);
+  const averageLength = documents.reduce((total, document) => total + document.tokens.length, 0) / Math.max(1, documents.length);
+
+  const termFrequencies = documents.map(document => terms.map(term => countOccurrences(document.tokens, term)));
+  const documentFrequencies = terms.map((_, index) => termFrequencies.filter(frequencies => frequencies[index] > 0).length);
+
+  const ranked = documents
+    .map((document, index) => ({
+      document,
+      score: termFrequencies[index].reduce(
+        (total, tf, termIndex) => total + (tf > 0 ? bm25(tf, documentFrequencies[termIndex], documents.length, document.tokens.length, averageLength) : 0),
+        0
+      )
+    }))
+    .filter(({ document }) => matches(query, document.tokens))
+    .sort((a, b) => b.score - a.score);
+
+  const results = ranked.slice(0, args.limit ?? DEFAULT_SEARCH_LIMIT).map(({ document, score }): TranscriptSearchResult => {
+    const sentence = bestSentence(document, terms);
+    return {
+      callId: document.call.id,
+      title: document.call.title,
+      started: document.call.started,
+      url: document.call.url,
+      speakerId: document.speaker.speakerId,
+      speakerName: document.speaker.name,
+      affiliation: document.speaker.affiliation,
+      startSeconds: sentence.start / 1000,
+      timestamp: formatOffset(sentence.start / 1000),
+      snippet: sentence.text,
+      score: Math.round(score * 1000) / 1000
+    };
+  });
+
+  return {
+    query: args.query,
+    results,
+    totalMatches: ranked.length,
+    searchedCalls: corpus.length,
+    ...(missingCallIds ? { missingCallIds } : {}),
+    ...(note ? { note } : {})
+  };
+}
+
+function speakerCompany(speaker?: GongSpeaker): string | undefined {
+  const domain = speaker?.email?.split('@')[1]?.toLowerCase();
+  return domain && !PERSONAL_EMAIL_DOMAINS.has(domain) ? domain : undefined;
+}
+
+// Sentences by external speakers that match on their own, each widened by QUOTE_CONTEXT_SENTENCES of the same
+// speaker's turn (a monologue, or consecutive monologues without anyone else speaking); overlapping or touching
+// windows in one turn become one quote
+function callQuotes(call: GongCall, callTranscript: GongEnrichedCallTranscript, query: QueryNode): TranscriptQuote[] {
+  const speakers = new Map(callTranscript.speakers.map(speaker => [speaker.speakerId, speaker]));
+  const sentences = callTranscript.transcript
+    .flatMap(monologue => monologue.sentences.map(sentence => ({ speakerId: monologue.speakerId, ...sentence, text: sentence.text.trim() })))
+    .sort((a, b) => a.start - b.start);
+
+  const windows: Array<{ from: number; to: number; firstMatch: number }> = [];
+  let turnStart = 0;
+  sentences.forEach((sentence, index) => {
+    if (index > 0 && sentences[index - 1].speakerId !== sentence.speakerId) turnStart = index;
+    if (speakers.get(sentence.speakerId)?.affiliation !== 'external' || !matches(query, tokenize(sentence.text))) return;
+
+    let turnEnd = index;
+    while (sentences[turnEnd + 1]?.speakerId === sentence.speakerId) turnEnd++;
+    const from = Math.max(turnStart, index - QUOTE_CONTEXT_SENTENCES);
+    const to = Math.min(turnEnd, index + QUOTE_CONTEXT_SENTENCES);
+    const previous = windows[windows.length - 1];
+    if (previous && previous.from >= turnStart && from <= previous.to + 1) {
+      previous.to = Math.max(previous.to, to);
+    } else {
+      windows.push({ from, to, firstMatch: index });
+    }
+  });
+
+  return windows.map(({ from, to, firstMatch }) => {
+    const group = sentences.slice(from, to + 1);
+    const speaker = speakers.get(group[0].speakerId);
+    const matched = sentences[firstMatch].start / 1000;
+    const last = group[group.length - 1];
+    return {
+      quote: group.map(sentence => sentence.text).join(' '),
+      callId: callTranscript.callId,
+      callTitle: call.title || undefined,
+      callStarted: call.started,
+      speakerId: group[0].speakerId,
+      speakerName: speaker?.name,
+      company: speakerCompany(speaker),
+      startSeconds: Math.floor(group[0].start / 1000),
+      endSeconds: Math.ceil((last.end ?? last.start) / 1000),
+      timestamp: formatOffset(matched),
+      url: call.url ? gongCallLinkAt(call.url, matched) : undefined
+    };
+  });
+}
+
+// Verbatim customer quotes over the same corpus and query syntax as searchTranscripts, newest calls first
+export async function findQuotes(
+  store: LocalCallStore,
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  args: GongFindQuotesArgs
+): Promise<QuoteSearchReport> {
+  const query = parseSearchQuery(args.query);
+  const { corpus, missingCallIds, note } = await loadCorpus(store, client, directory, args);
+
+  const quotes = [...corpus]
+    .sort((a, b) => (Date.parse(b.call.started ?? '') || 0) - (Date.parse(a.call.started ?? '') || 0))
+    .flatMap(({ call, callTranscript }) => callQuotes(call, callTranscript, query));
+
+  return {
+    query: args.query,
+    quotes: quotes.slice(0, args.limit ?? DEFAULT_SEARCH_LIMIT),
+    totalMatches: quotes.length,
+    searchedCalls: corpus.length,
+    ...(missingCallIds ? { missingCallIds } : {}),
+    ...(note ? { note } : {})
+  };
+}
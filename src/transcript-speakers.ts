@@ -0,0 +1,92 @@
+import { GongClient } from './gong-client.js';
+import {
+  GongCallTranscript,
+  GongEnrichedCallTranscript,
+  GongExtensiveCall,
+  GongParty,
+  GongSpeaker,
+} from './gong-types.js';
+import { GongUserDirectory, formatUserName } from './user-directory.js';
+
+function toAffiliation(party: GongParty): GongSpeaker['affiliation'] {
+  if (party.affiliation === 'Internal') return 'internal';
+  if (party.affiliation === 'External') return 'external';
+  return 'unknown';
+}
+
+async function toSpeaker(party: GongParty, directory: GongUserDirectory | null): Promise<GongSpeaker> {
+  const speaker: GongSpeaker = {
+    speakerId: party.speakerId!,
+    name: party.name,
+    email: party.emailAddress,
+    userId: party.userId,
+    affiliation: toAffiliation(party)
+  };
+
+  // Parties for Gong users sometimes arrive without a name or email
+  if (party.userId && directory && (!speaker.name || !speaker.email)) {
+    const user = await directory.getById(party.userId);
+    if (user) {
+      speaker.name = speaker.name ?? formatUserName(user);
+      speaker.email = speaker.email ?? user.emailAddress;
+      if (speaker.affiliation === 'unknown') speaker.affiliation = 'internal';
+    }
+  }
+
+  return speaker;
+}
+
+// Keys a call's parties by transcript speakerId; the call must have been fetched with the parties selector
+export async function speakersFromParties(call: GongExtensiveCall, directory: GongUserDirectory | null): Promise<Map<string, GongSpeaker>> {
+  const speakers = new Map<string, GongSpeaker>();
+  for (const party of call.parties ?? []) {
+    if (!party.speakerId) continue;
+    speakers.set(party.speakerId, await toSpeaker(party, directory));
+  }
+  return speakers;
+}
+
+// Keys each already-fetched call's parties by transcript speakerId, for callers that need the calls for more than speakers
+export async function speakersFromCalls(
+  calls: GongExtensiveCall[],
+  directory: GongUserDirectory | null
+): Promise<Map<string, Map<string, GongSpeaker>>> {
+  const speakersByCall = new Map<string, Map<string, GongSpeaker>>();
+  for (const call of calls) {
+    speakersByCall.set(call.metaData.id, await speakersFromParties(call, directory));
+  }
+  return speakersByCall;
+}
+
+// Looks up each call's parties and keys them by transcript speakerId
+export async function resolveCallSpeakers(
+  client: GongClient,
+  directory: GongUserDirectory | null,
+  callIds: string[]
+): Promise<Map<string, Map<string, GongSpeaker>>> {
+  if (callIds.length === 0) return new Map();
+  const { items: calls } = await client.getAllCallsExtensive({ callIds }, ['parties']);
+  return speakersFromCalls(calls, directory);
+}
+
+export function enrichCallTranscripts(
+  callTranscripts: GongCallTranscript[],
+  speakersByCall: Map<string, Map<string, GongSpeaker>>
+): GongEnrichedCallTranscript[] {
+  return callTranscripts.map(callTranscript => {
+    const known = speakersByCall.get(callTranscript.callId) ?? new Map<string, GongSpeaker>();
+    const speakers = new Map<string, GongSpeaker>();
+
+    const transcript = callTranscript.transcript.map(monologue => {
+      const speaker: GongSpeaker = known.get(monologue.speakerId) ?? { speakerId: monologue.speakerId, affiliation: 'unknown' };
+      speakers.set(speaker.speakerId, speaker);
+      return { ...monologue, speakerName: speaker.name };
+    });
+
+    return {
+      callId: callTranscript.callId,
+      speakers: [...speakers.values()],
+      transcript
+    };
+  });
+}
@@ -0,0 +1,61 @@
+import { GongCallTranscript, GongTranscript } from './gong-types.js';
+
+// Keeps only sentences starting inside [fromSeconds, toSeconds); Gong sentence offsets are in milliseconds
+export function sliceTranscriptWindow<T extends GongCallTranscript>(
+  callTranscripts: T[],
+  fromSeconds?: number,
+  toSeconds?: number
+): T[] {
+  if (fromSeconds === undefined && toSeconds === undefined) return callTranscripts;
+
+  const fromMs = (fromSeconds ?? 0) * 1000;
+  const toMs = toSeconds === undefined ? Infinity : toSeconds * 1000;
+
+  return callTranscripts.map(callTranscript => ({
+    ...callTranscript,
+    transcript: callTranscript.transcript
+      .map(monologue => ({
+        ...monologue,
+        sentences: monologue.sentences.filter(sentence => sentence.start >= fromMs && sentence.start < toMs)
+      }))
+      .filter(monologue => monologue.sentences.length > 0)
+  }));
+}
+
+// Keeps only monologues Gong tagged with the topic, compared case-insensitively
+export function filterTranscriptTopic<T extends GongCallTranscript>(callTranscripts: T[], topic?: string): T[] {
+  if (!topic) return callTranscripts;
+  const wanted = topic.trim().toLowerCase();
+  return callTranscripts.map(callTranscript => ({
+    ...callTranscript,
+    transcript: callTranscript.transcript.filter(monologue => monologue.topic?.trim().toLowerCase() === wanted)
+  }));
+}
+
+// Gong's call page starts playback at the t query parameter, in whole seconds
+export function gongCallLinkAt(callUrl: string, seconds: number): string {
+  const url = new URL(callUrl);
+  url.searchParams.set('t', String(Math.floor(seconds)));
+  return url.toString();
+}
+
+export type LinkedTranscript = GongTranscript & { startSeconds: number; url?: string };
+
+// Gives each excerpt (monologue) its start offset and a link into the recording at that point
+export function linkTranscriptExcerpts<T extends GongCallTranscript>(
+  callTranscripts: T[],
+  callUrls: Map<string, string | undefined>
+): Array<T & { transcript: LinkedTranscript[] }> {
+  return callTranscripts.map(callTranscript => {
+    const callUrl = callUrls.get(callTranscript.callId);
+    return {
+      ...callTranscript,
+      transcript: callTranscript.transcript
+        .filter(monologue => monologue.sentences.length > 0)
+        .map(monologue => {
+          const startSeconds = monologue.sentences[0].start / 1000;
+          return { ...monologue, startSeconds, ...(callUrl ? { url: gongCallLinkAt(callUrl, startSeconds) } : {}) };
+        })
+    };
+  });
+}
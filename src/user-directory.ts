@@ -0,0 +1,85 @@
+import { GongClient } from './gong-client.js';
+import { GongNotFoundError } from './gong-errors.js';
+import { GongUser } from './gong-types.js';
+
+// Gong users change rarely, so the full directory is reloaded at most hourly
+export const USER_DIRECTORY_TTL_MS = 60 * 60 * 1000;
+
+export function formatUserName(user: GongUser): string | undefined {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.emailAddress;
+}
+
+// Cached view of /v2/users shared by the users tools and speaker resolution
+export class GongUserDirectory {
+  private client: GongClient;
+  private ttlMs: number;
+  private usersById = new Map<string, GongUser>();
+  private loadedAt = 0;
+  private loading?: Promise<void>;
+
+  constructor(client: GongClient, ttlMs: number = USER_DIRECTORY_TTL_MS) {
+    this.client = client;
+    this.ttlMs = ttlMs;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.ttlMs) return;
+
+    // Concurrent callers share one reload instead of each paging through /v2/users
+    if (!this.loading) {
+      this.loading = this.reload().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    await this.loading;
+  }
+
+  private async reload(): Promise<void> {
+    const usersById = new Map<string, GongUser>();
+    for await (const page of this.client.paginateUsers()) {
+      for (const user of page.users ?? []) {
+        usersById.set(user.id, user);
+      }
+    }
+    this.usersById = usersById;
+    this.loadedAt = Date.now();
+    console.error(`👥 Loaded ${usersById.size} Gong users into the directory`);
+  }
+
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  async list(includeInactive = false): Promise<GongUser[]> {
+    await this.ensureLoaded();
+    const users = [...this.usersById.values()];
+    return includeInactive ? users : users.filter(user => user.active !== false);
+  }
+
+  async getById(userId: string): Promise<GongUser | undefined> {
+    await this.ensureLoaded();
+    const cached = this.usersById.get(userId);
+    if (cached) return cached;
+
+    // Users created since the last reload are fetched individually
+    try {
+      const { user } = await this.client.getUser(userId);
+      this.usersById.set(user.id, user);
+      return user;
+    } catch (error) {
+      if (error instanceof GongNotFoundError) return undefined;
+      throw error;
+    }
+  }
+
+  async getByEmail(email: string): Promise<GongUser | undefined> {
+    await this.ensureLoaded();
+    const needle = email.toLowerCase();
+    for (const user of this.usersById.values()) {
+      const addresses = [user.emailAddress, ...(user.emailAliases ?? [])];
+      if (addresses.some(address => address?.toLowerCase() === needle)) return user;
+    }
+    return undefined;
+  }
+}
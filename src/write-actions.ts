@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { GongClient } from './gong-client.js';
+import {
+  GongCreateMeetingArgs,
+  GongMeetingRequest,
+  GongMeetingResponse,
+  GongNewCallRequest,
+  GongRegisterCallArgs,
+  GongUpdateMeetingArgs,
+} from './gong-types.js';
+
+export interface WritePreview {
+  dryRun: true;
+  // The Gong requests the tool would send, in order
+  requests: Array<{
+    method: string;
+    path: string;
+    body?: unknown;
+  }>;
+}
+
+export interface RegisteredCall {
+  callId: string;
+  url?: string;
+  // gong_download: Gong fetches downloadMediaUrl itself
+  media: 'uploaded' | 'gong_download' | 'none' | 'upload_failed';
+  // Set when the call was created but attaching the recording failed
+  mediaError?: string;
+}
+
+function toMeetingRequest(args: GongMeetingRequest): GongMeetingRequest {
+  const { startTime, endTime, title, organizerEmail, invitees, externalId } = args;
+  if (Number.isNaN(Date.parse(startTime)) || Number.isNaN(Date.parse(endTime))) {
+    throw new Error('startTime and endTime must be ISO date/times');
+  }
+  if (Date.parse(endTime) <= Date.parse(startTime)) {
+    throw new Error('endTime must be after startTime');
+  }
+  if (invitees.length === 0) {
+    throw new Error('A meeting needs at least one invitee');
+  }
+  return { startTime, endTime, title, organizerEmail, invitees, externalId };
+}
+
+// Media files are only read from GONG_MEDIA_UPLOAD_DIR, so a tool call cannot upload arbitrary server files
+function resolveMediaPath(mediaFilePath: string, uploadDir?: string): string {
+  if (!uploadDir) {
+    throw new Error('mediaFilePath uploads are disabled; set GONG_MEDIA_UPLOAD_DIR or pass downloadMediaUrl');
+  }
+  const root = path.resolve(uploadDir);
+  const resolved = path.resolve(root, mediaFilePath);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error('mediaFilePath must stay inside GONG_MEDIA_UPLOAD_DIR');
+  }
+  return resolved;
+}
+
+export async function createMeeting(client: GongClient, args: GongCreateMeetingArgs): Promise<GongMeetingResponse | WritePreview> {
+  const meeting = toMeetingRequest(args);
+  if (args.dryRun) {
+    return { dryRun: true, requests: [{ method: 'POST', path: '/v2/meetings', body: meeting }] };
+  }
+  return client.createMeeting(meeting);
+}
+
+export async function updateMeeting(client: GongClient, args: GongUpdateMeetingArgs): Promise<GongMeetingResponse | WritePreview> {
+  const meeting = toMeetingRequest(args);
+  if (args.dryRun) {
+    return { dryRun: true, requests: [{ method: 'PUT', path: `/v2/meetings/${args.meetingId}`, body: meeting }] };
+  }
+  return client.updateMeeting(args.meetingId, meeting);
+}
+
+// POST /v2/calls, then PUT the recording unless Gong was given a downloadMediaUrl to fetch it from
+export async function registerCall(client: GongClient, args: GongRegisterCallArgs, uploadDir?: string): Promise<RegisteredCall | WritePreview> {
+  const { mediaFilePath, dryRun, clientUniqueId, ...fields } = args;
+  if (mediaFilePath && fields.downloadMediaUrl) {
+    throw new Error('Pass either mediaFilePath or downloadMediaUrl, not both');
+  }
+  if (fields.parties.length === 0) {
+    throw new Error('A call needs at least one party');
+  }
+
+  const call: GongNewCallRequest = {
+    ...fields,
+    clientUniqueId: clientUniqueId ?? randomUUID(),
+    workspaceId: fields.workspaceId ?? client.defaultWorkspaceId
+  };
+  const mediaPath = mediaFilePath ? resolveMediaPath(mediaFilePath, uploadDir) : undefined;
+
+  if (dryRun) {
+    const requests: WritePreview['requests'] = [{ method: 'POST', path: '/v2/calls', body: call }];
+    if (mediaPath) {
+      const { size } = await stat(mediaPath);
+      requests.push({ method: 'PUT', path: '/v2/calls/{callId}/media', body: { mediaFile: path.basename(mediaPath), bytes: size } });
+    }
+    return { dryRun: true, requests };
+  }
+
+  // Read before creating the call so a missing file does not leave a call without media
+  const media = mediaPath ? await readFile(mediaPath) : undefined;
+  const { callId, url } = await client.addCall(call);
+  if (!media || !mediaPath) return { callId, url, media: call.downloadMediaUrl ? 'gong_download' : 'none' };
+
+  try {
+    await client.uploadCallMedia(callId, new Blob([media]), path.basename(mediaPath));
+    return { callId, url, media: 'uploaded' };
+  } catch (error) {
+    return { callId, url, media: 'upload_failed', mediaError: error instanceof Error ? error.message : String(error) };
+  }
+}